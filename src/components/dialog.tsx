@@ -3,6 +3,8 @@
 import * as React from 'react';
 import { Dialog as DialogPrimitive } from 'radix-ui';
 
+import { useModalDismiss } from '../lib/dismiss';
+import { useModalOverlay, useModalStacking } from '../lib/stacking';
 import { cn } from './utils';
 import { Button } from './button';
 import { XIcon } from 'lucide-react';
@@ -31,7 +33,7 @@ function DialogOverlay({
     <DialogPrimitive.Overlay
       data-slot="dialog-overlay"
       className={cn(
-        'data-open:animate-in data-closed:animate-out data-closed:fade-out-0 data-open:fade-in-0 bg-black/10 duration-100 supports-backdrop-filter:backdrop-blur-xs fixed inset-0 isolate z-50',
+        'data-open:animate-in data-closed:animate-out data-closed:fade-out-0 data-open:fade-in-0 bg-black/10 duration-100 supports-backdrop-filter:backdrop-blur-xs fixed inset-0 isolate z-50 transition-opacity data-overlay-hidden:opacity-0',
         className
       )}
       {...props}
@@ -43,20 +45,28 @@ function DialogContent({
   className,
   children,
   showCloseButton = true,
+  onEscapeKeyDown,
+  onPointerDownOutside,
   ...props
 }: React.ComponentProps<typeof DialogPrimitive.Content> & {
   showCloseButton?: boolean;
 }) {
+  const stacking = useModalStacking();
+  const dismiss = useModalDismiss({ onEscapeKeyDown, onPointerDownOutside });
+  const overlay = useModalOverlay(<DialogOverlay {...stacking.overlayAttributes} />);
+
   return (
     <DialogPortal>
-      <DialogOverlay />
+      {overlay}
       <DialogPrimitive.Content
         data-slot="dialog-content"
+        {...stacking.attributes}
         className={cn(
-          'bg-background data-open:animate-in data-closed:animate-out data-closed:fade-out-0 data-open:fade-in-0 data-closed:zoom-out-95 data-open:zoom-in-95 ring-foreground/10 grid max-w-[calc(100%-2rem)] gap-4 rounded-xl p-4 text-sm ring-1 duration-100 sm:max-w-sm fixed top-1/2 left-1/2 z-50 w-full -translate-x-1/2 -translate-y-1/2 outline-none',
+          'bg-background data-open:animate-in data-closed:animate-out data-closed:fade-out-0 data-open:fade-in-0 data-closed:zoom-out-95 data-open:zoom-in-95 ring-foreground/10 grid max-w-[calc(100%-2rem)] gap-4 rounded-xl p-4 text-sm ring-1 duration-100 sm:max-w-sm fixed top-1/2 left-1/2 z-50 w-full -translate-x-1/2 -translate-y-1/2 outline-none transition-[scale,translate] data-stacked:data-[stack-top=false]:scale-95 data-stacked:data-[stack-top=false]:-translate-y-[calc(50%+1rem)]',
           className
         )}
         {...props}
+        {...dismiss}
       >
         {children}
         {showCloseButton && (
@@ -97,7 +107,7 @@ function DialogFooter({
     >
       {children}
       {showCloseButton && (
-        <DialogPrimitive.Close asChild>
+        <DialogPrimitive.Close data-slot="dialog-close" asChild>
           <Button variant="outline">Close</Button>
         </DialogPrimitive.Close>
       )}
@@ -1,4 +1,12 @@
 export * from './lib/factory';
 export * from './lib/responsive';
+export * from './lib/url';
+export * from './lib/dialogs';
+export { lazyModal } from './lib/lazy';
+export type { LazyModal } from './lib/lazy';
+export { useModalDismiss } from './lib/dismiss';
+export type { DismissHandlers } from './lib/dismiss';
+export { useModalOverlay, useModalStacking } from './lib/stacking';
+export type { ModalStacking } from './lib/stacking';
 export { usePersistForm } from './lib/persistForm';
 export type { PersistFormOptions, PersistFormReturn } from './lib/persistForm';
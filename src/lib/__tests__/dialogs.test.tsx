@@ -0,0 +1,75 @@
+import { render, screen, act, fireEvent } from '@testing-library/react';
+import { createPushModal } from '../factory';
+import type { DialogProps } from '../dialogs';
+
+function setup(dialogs?: { Component: React.ComponentType<DialogProps> }) {
+  return createPushModal({
+    dialogs,
+    modals: {
+      Plain: () => <div>plain</div>,
+    },
+  });
+}
+
+describe('dialogs', () => {
+  it('should resolve confirm with the choice of the user', async () => {
+    const { ModalProvider, confirm } = setup();
+    render(<ModalProvider />);
+
+    let confirmed!: Promise<boolean>;
+    act(() => {
+      confirmed = confirm({ title: 'Delete?', confirmLabel: 'Delete', variant: 'destructive' });
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+    await expect(confirmed).resolves.toBe(true);
+
+    let cancelled!: Promise<boolean>;
+    act(() => {
+      cancelled = confirm('Delete again?');
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    await expect(cancelled).resolves.toBe(false);
+  });
+
+  it('should resolve prompt with the entered text', async () => {
+    const { ModalProvider, prompt } = setup();
+    render(<ModalProvider />);
+
+    let name!: Promise<string | null>;
+    act(() => {
+      name = prompt({ title: 'Name', defaultValue: 'draft' });
+    });
+    fireEvent.change(screen.getByRole('textbox'), { target: { value: 'final' } });
+    fireEvent.click(screen.getByRole('button', { name: 'OK' }));
+
+    await expect(name).resolves.toBe('final');
+  });
+
+  it('should stack above the open modals', () => {
+    const { ModalProvider, pushModal, alert } = setup();
+    render(<ModalProvider />);
+
+    act(() => {
+      pushModal('Plain');
+      alert('Saved');
+    });
+
+    expect(screen.getByRole('alertdialog')).toHaveTextContent('Saved');
+    expect(screen.queryByRole('button', { name: 'Cancel' })).not.toBeInTheDocument();
+  });
+
+  it('should render the dialogs with a custom component', async () => {
+    const { ModalProvider, confirm } = setup({
+      Component: ({ title, resolve }) => <button onClick={() => resolve(true)}>{title}</button>,
+    });
+    render(<ModalProvider />);
+
+    let confirmed!: Promise<boolean>;
+    act(() => {
+      confirmed = confirm('Custom');
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Custom' }));
+
+    await expect(confirmed).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,1580 @@
+import { lazy, useState } from 'react';
+import { render, screen, act, fireEvent, waitFor, within } from '@testing-library/react';
+import { Dialog as DialogPrimitive } from 'radix-ui';
+import { Dialog, DialogContent, DialogTitle } from '../../components/dialog';
+import { Sheet, SheetContent, SheetTitle } from '../../components/sheet';
+import { createPushModal, DISMISSED, type ModalHandle } from '../factory';
+import { useModalDismiss } from '../dismiss';
+import { useModalStacking } from '../stacking';
+
+function setup(
+  beforeClose: (reason: string, props: { locked: boolean }) => boolean = () => true,
+  animationTimeout?: number
+) {
+  const factory = createPushModal({
+    animationTimeout,
+    modals: {
+      Animated: () => {
+        const { open } = factory.useModal();
+        return <div data-testid="animated" data-state={open ? 'open' : 'closed'} />;
+      },
+      Locked: {
+        Wrapper: Dialog,
+        Component: ({ locked }: { locked: boolean }) => <div>locked {String(locked)}</div>,
+        beforeClose,
+      },
+      Draft: ({ confirm }: { confirm: () => Promise<boolean> }) => {
+        factory.useBeforeClose(confirm);
+        return <div>draft</div>;
+      },
+      Plain: () => <div>plain</div>,
+      Content: () => (
+        <DialogPrimitive.Content aria-describedby={undefined} {...useModalDismiss()}>
+          <DialogPrimitive.Title>content</DialogPrimitive.Title>
+          <DialogPrimitive.Close data-slot="dialog-close">close content</DialogPrimitive.Close>
+        </DialogPrimitive.Content>
+      ),
+      // Closes itself on pointerup, like a vaul drawer swiped shut
+      Swipe: {
+        Wrapper: ({ open, onOpenChange, children }) =>
+          open ? (
+            <div role="dialog" onPointerUp={() => onOpenChange(false)}>
+              {children}
+            </div>
+          ) : null,
+        Component: () => <div>swipe</div>,
+      },
+      Picker: ({ resolve }: { resolve: (value: string) => void }) => (
+        <button onClick={() => resolve('picked')}>pick</button>
+      ),
+      Progress: ({ progress }: { progress: number }) => {
+        const [mountedAt] = useState(() => Math.random());
+        return (
+          <div data-testid="progress" data-mounted-at={mountedAt}>
+            {progress}%
+          </div>
+        );
+      },
+      Self: ({ label }: { label: string }) => {
+        const { close, update, replace, index, isTop, open } = factory.useModal<'Self'>();
+        return (
+          <div data-testid={label} data-index={index} data-top={isTop} data-open={open}>
+            <button onClick={() => close()}>close {label}</button>
+            <button onClick={() => update({ label: `${label}!` })}>update {label}</button>
+            <button onClick={() => replace('Plain')}>replace {label}</button>
+          </div>
+        );
+      },
+      User: {
+        Component: ({ id }: { id: number }) => <div data-testid="user">user {id}</div>,
+        dedupe: { policy: 'unique', key: ({ id }) => id },
+      },
+      Plan: ({ plan }: { plan: string }) => {
+        const { next, forward, step, stepCount } = factory.useModal();
+        return (
+          <div data-testid="plan" data-step={step} data-steps={stepCount}>
+            {plan}
+            <button onClick={() => next('Details', { email: `${plan}@example.com` })}>next</button>
+            <button onClick={() => forward()}>forward</button>
+          </div>
+        );
+      },
+      Details: ({ email }: { email: string }) => {
+        const { back, step } = factory.useModal();
+        return (
+          <div data-testid="details" data-step={step}>
+            {email}
+            <button onClick={() => back()}>back</button>
+          </div>
+        );
+      },
+    },
+  });
+  return factory;
+}
+
+describe('createPushModal', () => {
+  describe('pushModalAsync', () => {
+    it('should resolve with the value passed to resolve', async () => {
+      const { ModalProvider, pushModalAsync } = setup();
+      render(<ModalProvider />);
+
+      let promise!: Promise<string | typeof DISMISSED>;
+      act(() => {
+        promise = pushModalAsync('Picker');
+      });
+
+      fireEvent.click(screen.getByText('pick'));
+
+      await expect(promise).resolves.toBe('picked');
+    });
+
+    it('should resolve with DISMISSED when closed without a result', async () => {
+      const { ModalProvider, pushModalAsync, popAllModals } = setup();
+      render(<ModalProvider />);
+
+      let promise!: Promise<string | typeof DISMISSED>;
+      act(() => {
+        promise = pushModalAsync('Picker');
+      });
+      act(() => {
+        popAllModals();
+      });
+
+      await expect(promise).resolves.toBe(DISMISSED);
+    });
+
+    it('should resolve with DISMISSED when popped by name', async () => {
+      const { ModalProvider, pushModalAsync, popModal } = setup();
+      render(<ModalProvider />);
+
+      let promise!: Promise<undefined | typeof DISMISSED>;
+      act(() => {
+        promise = pushModalAsync('Plain');
+      });
+      expect(screen.getByText('plain')).toBeInTheDocument();
+
+      act(() => {
+        popModal('Plain');
+      });
+
+      await expect(promise).resolves.toBe(DISMISSED);
+    });
+
+    it('should wait for the instance already open with the same id', async () => {
+      const { ModalProvider, pushModal, pushModalAsync, popModal, onCloseModal } = setup();
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const onClose = jest.fn();
+      onCloseModal('*', onClose);
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Progress', { progress: 10 }, { id: 'upload' });
+      });
+      let promise!: Promise<undefined | typeof DISMISSED>;
+      act(() => {
+        promise = pushModalAsync('Progress', { progress: 50 }, { id: 'upload' });
+      });
+
+      expect(warn).toHaveBeenCalledWith('[swapmodal] A modal with id "upload" is already open');
+      expect(screen.getByTestId('progress')).toHaveTextContent('10%');
+      expect(onClose).not.toHaveBeenCalled();
+
+      act(() => {
+        popModal('upload');
+      });
+
+      await expect(promise).resolves.toBe(DISMISSED);
+      warn.mockRestore();
+    });
+
+    it('should keep the identity of resolve between renders', () => {
+      const seen = new Set<unknown>();
+      const { ModalProvider, pushModal, updateModal } = createPushModal({
+        modals: {
+          Counter: ({ count, resolve }: { count: number; resolve: (value: number) => void }) => {
+            seen.add(resolve);
+            return <div>{count}</div>;
+          },
+        },
+      });
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Counter', { count: 1 });
+      });
+      act(() => {
+        updateModal('Counter', { count: 2 });
+      });
+
+      expect(screen.getByText('2')).toBeInTheDocument();
+      expect(seen.size).toBe(1);
+    });
+  });
+
+  describe('useModal', () => {
+    it('should throw when used outside of the provider', () => {
+      const { useModal } = setup();
+      const Outside = () => {
+        useModal();
+        return null;
+      };
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(() => render(<Outside />)).toThrow(/useModal must be used inside a modal/);
+    });
+
+    it('should expose the position of each instance', () => {
+      const { ModalProvider, pushModal } = setup();
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Self', { label: 'first' });
+        pushModal('Self', { label: 'second' });
+      });
+
+      expect(screen.getByTestId('first')).toHaveAttribute('data-index', '0');
+      expect(screen.getByTestId('first')).toHaveAttribute('data-top', 'false');
+      expect(screen.getByTestId('second')).toHaveAttribute('data-index', '1');
+      expect(screen.getByTestId('second')).toHaveAttribute('data-top', 'true');
+    });
+
+    it('should close its own instance when the same modal is stacked twice', () => {
+      const { ModalProvider, pushModal } = setup();
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Self', { label: 'first' });
+        pushModal('Self', { label: 'second' });
+      });
+      fireEvent.click(screen.getByText('close first'));
+
+      expect(screen.getByTestId('first')).toHaveAttribute('data-open', 'false');
+      expect(screen.getByTestId('second')).toHaveAttribute('data-open', 'true');
+      expect(screen.getByTestId('second')).toHaveAttribute('data-index', '0');
+    });
+
+    it('should update and replace its own instance', () => {
+      const { ModalProvider, pushModal } = setup();
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Self', { label: 'first' });
+        pushModal('Self', { label: 'second' });
+      });
+      fireEvent.click(screen.getByText('update first'));
+
+      expect(screen.getByTestId('first!')).toHaveAttribute('data-open', 'true');
+
+      fireEvent.click(screen.getByText('replace first!'));
+
+      expect(screen.getByTestId('first!')).toHaveAttribute('data-open', 'false');
+      expect(screen.getByTestId('second')).toHaveAttribute('data-open', 'true');
+      expect(screen.getByText('plain')).toBeInTheDocument();
+    });
+  });
+
+  describe('handles', () => {
+    it('should close the instance it was returned for', () => {
+      const { ModalProvider, pushModal } = setup();
+      render(<ModalProvider />);
+
+      let first!: ReturnType<typeof pushModal>;
+      act(() => {
+        first = pushModal('Self', { label: 'first' });
+        pushModal('Self', { label: 'second' });
+      });
+      expect(first.isOpen()).toBe(true);
+
+      act(() => {
+        first.close();
+      });
+
+      expect(first.isOpen()).toBe(false);
+      expect(screen.getByTestId('first')).toHaveAttribute('data-open', 'false');
+      expect(screen.getByTestId('second')).toHaveAttribute('data-open', 'true');
+    });
+
+    it('should use the caller supplied id', () => {
+      const { ModalProvider, pushModal, popModal } = setup();
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Self', { label: 'first' }, { id: 'edit-row-42' });
+        pushModal('Self', { label: 'second' });
+      });
+      act(() => {
+        popModal('edit-row-42');
+      });
+
+      expect(screen.getByTestId('first')).toHaveAttribute('data-open', 'false');
+      expect(screen.getByTestId('second')).toHaveAttribute('data-open', 'true');
+    });
+
+    it('should update props through the handle', () => {
+      const { ModalProvider, replaceWithModal } = setup();
+      render(<ModalProvider />);
+
+      let handle!: ReturnType<typeof replaceWithModal>;
+      act(() => {
+        handle = replaceWithModal('Self', { label: 'first' }, { id: 'replaced' });
+      });
+      act(() => {
+        handle.update({ label: 'updated' });
+      });
+
+      expect(handle.id).toBe('replaced');
+      expect(screen.getByTestId('updated')).toHaveAttribute('data-open', 'true');
+    });
+  });
+
+  describe('updateModal', () => {
+    it('should merge props without remounting the component', () => {
+      const { ModalProvider, pushModal, updateModal } = setup();
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Progress', { progress: 0 });
+      });
+      const mountedAt = screen.getByTestId('progress').getAttribute('data-mounted-at');
+
+      act(() => {
+        updateModal('Progress', { progress: 50 });
+      });
+      act(() => {
+        updateModal('Progress', (prev) => ({ progress: prev.progress + 25 }));
+      });
+
+      expect(screen.getByTestId('progress')).toHaveTextContent('75%');
+      expect(screen.getByTestId('progress')).toHaveAttribute('data-mounted-at', mountedAt);
+    });
+
+    it('should notify update listeners', () => {
+      const { ModalProvider, pushModal, updateModal, onUpdateModal } = setup();
+      render(<ModalProvider />);
+      const callback = jest.fn();
+      onUpdateModal('Progress', callback);
+
+      act(() => {
+        pushModal('Progress', { progress: 0 }, { id: 'upload' });
+      });
+      act(() => {
+        updateModal('upload', { progress: 10 });
+      });
+
+      expect(callback).toHaveBeenCalledWith({ progress: 10 }, 'Progress');
+    });
+  });
+
+  describe('beforeClose guards', () => {
+    it('should keep the modal open when the definition guard vetoes', () => {
+      const guard = jest.fn((_reason: string, props: { locked: boolean }) => !props.locked);
+      const { ModalProvider, pushModal, popModal } = setup(guard);
+      render(<ModalProvider />);
+
+      let handle!: ReturnType<typeof pushModal>;
+      act(() => {
+        handle = pushModal('Locked', { locked: true });
+      });
+      act(() => {
+        popModal();
+      });
+
+      expect(guard).toHaveBeenCalledWith('pop', { locked: true });
+      expect(handle.isOpen()).toBe(true);
+
+      act(() => {
+        popModal('Locked', { force: true });
+      });
+
+      expect(handle.isOpen()).toBe(false);
+    });
+
+    it('should keep the modal open when a guard throws', () => {
+      const { ModalProvider, pushModal, popModal } = setup(() => {
+        throw new Error('guard');
+      });
+      render(<ModalProvider />);
+
+      let handle!: ReturnType<typeof pushModal>;
+      act(() => {
+        handle = pushModal('Locked', { locked: true });
+      });
+
+      let closed: boolean | Promise<boolean> = true;
+      act(() => {
+        closed = popModal();
+      });
+
+      expect(closed).toBe(false);
+      expect(handle.isOpen()).toBe(true);
+    });
+
+    it('should wait for async guards registered from the component', async () => {
+      const { ModalProvider, pushModal } = setup();
+      render(<ModalProvider />);
+      let answer!: (value: boolean) => void;
+      const confirm = jest.fn(() => new Promise<boolean>((resolve) => (answer = resolve)));
+
+      let handle!: ReturnType<typeof pushModal>;
+      act(() => {
+        handle = pushModal('Draft', { confirm });
+      });
+
+      let closed!: boolean | Promise<boolean>;
+      act(() => {
+        closed = handle.close();
+      });
+      // A second request while the guard is pending is ignored
+      act(() => {
+        handle.close();
+      });
+
+      expect(confirm).toHaveBeenCalledTimes(1);
+      expect(handle.isOpen()).toBe(true);
+
+      await act(async () => {
+        answer(true);
+        await closed;
+      });
+
+      expect(handle.isOpen()).toBe(false);
+    });
+
+    it('should stop popAllModals at the first guarded modal', () => {
+      const { ModalProvider, pushModal, popAllModals } = setup((reason) => reason !== 'popAll');
+      render(<ModalProvider />);
+
+      let bottom!: ReturnType<typeof pushModal>;
+      let locked!: ReturnType<typeof pushModal>;
+      let top!: ReturnType<typeof pushModal>;
+      act(() => {
+        bottom = pushModal('Plain');
+        locked = pushModal('Locked', { locked: true });
+        top = pushModal('Plain');
+      });
+      act(() => {
+        popAllModals();
+      });
+
+      expect(top.isOpen()).toBe(false);
+      expect(locked.isOpen()).toBe(true);
+      expect(bottom.isOpen()).toBe(true);
+    });
+
+    it('should not replace a guarded modal unless forced', () => {
+      const { ModalProvider, pushModal, replaceWithModal } = setup(
+        (reason) => reason !== 'replace'
+      );
+      render(<ModalProvider />);
+
+      let locked!: ReturnType<typeof pushModal>;
+      act(() => {
+        locked = pushModal('Locked', { locked: true });
+      });
+      act(() => {
+        replaceWithModal('Plain');
+      });
+
+      expect(locked.isOpen()).toBe(true);
+      expect(screen.queryByText('plain')).not.toBeInTheDocument();
+
+      act(() => {
+        replaceWithModal('Plain', undefined, { force: true });
+      });
+
+      expect(locked.isOpen()).toBe(false);
+      expect(screen.getByText('plain')).toBeInTheDocument();
+    });
+  });
+
+  describe('close reasons', () => {
+    it('should report programmatic reasons', () => {
+      const { ModalProvider, pushModal, popModal, popAllModals, replaceWithModal, onCloseModal } =
+        setup();
+      render(<ModalProvider />);
+      const callback = jest.fn();
+      onCloseModal('*', callback);
+
+      act(() => {
+        pushModal('Plain');
+        popModal();
+      });
+      act(() => {
+        pushModal('Plain');
+        replaceWithModal('Plain');
+      });
+      act(() => {
+        popAllModals();
+      });
+
+      expect(callback.mock.calls.map(([, , reason]) => reason)).toEqual([
+        'pop',
+        'replace',
+        'popAll',
+      ]);
+    });
+
+    it('should report resolve when closed with a result', () => {
+      const { ModalProvider, pushModalAsync, onPushModal } = setup();
+      render(<ModalProvider />);
+      const callback = jest.fn();
+      onPushModal('Picker', callback);
+
+      act(() => {
+        pushModalAsync('Picker');
+      });
+      fireEvent.click(screen.getByText('pick'));
+
+      expect(callback).toHaveBeenLastCalledWith(false, {}, 'Picker', 'resolve');
+    });
+
+    it('should tell escape from the close button', () => {
+      const { ModalProvider, pushModal, onCloseModal } = setup();
+      render(<ModalProvider />);
+      const callback = jest.fn();
+      onCloseModal('Content', callback);
+
+      act(() => {
+        pushModal('Content');
+      });
+      fireEvent.keyDown(screen.getByRole('dialog'), { key: 'Escape' });
+
+      act(() => {
+        pushModal('Content');
+      });
+      const button = screen.getByText('close content');
+      fireEvent.pointerDown(button);
+      fireEvent.click(button);
+
+      expect(callback.mock.calls.map(([, , reason]) => reason)).toEqual(['escape', 'close-button']);
+    });
+
+    it('should report a pointer down outside of the content', async () => {
+      const { ModalProvider, pushModal, onCloseModal } = setup();
+      render(<ModalProvider />);
+      const callback = jest.fn();
+      onCloseModal('Content', callback);
+
+      act(() => {
+        pushModal('Content');
+      });
+      // Radix listens to outside pointer downs once the opening event is over
+      await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+      fireEvent.pointerDown(document.body);
+
+      expect(callback).toHaveBeenCalledWith({}, 'Content', 'outside');
+    });
+
+    it('should report dismiss when the wrapper closes by itself', () => {
+      const { ModalProvider, pushModal, onCloseModal } = setup();
+      render(<ModalProvider />);
+      const callback = jest.fn();
+      onCloseModal('*', callback);
+
+      act(() => {
+        pushModal('Swipe');
+      });
+      fireEvent.pointerDown(screen.getByText('swipe'));
+      fireEvent.pointerUp(screen.getByText('swipe'));
+
+      act(() => {
+        pushModal('Swipe');
+      });
+      fireEvent.keyDown(screen.getByText('swipe'), { key: 'Enter' });
+      fireEvent.pointerUp(screen.getByText('swipe'));
+
+      expect(callback.mock.calls.map(([, , reason]) => reason)).toEqual(['dismiss', 'dismiss']);
+    });
+  });
+
+  describe('lifecycle events', () => {
+    it('should emit the lifecycle of a modal in order', async () => {
+      const factory = setup();
+      const { ModalProvider, pushModal, popModal } = factory;
+      render(<ModalProvider />);
+      const events: string[] = [];
+      factory.onBeforeOpenModal('Plain', () => events.push('beforeOpen'));
+      factory.onOpenedModal('Plain', () => events.push('opened'));
+      factory.onBeforeCloseModal('Plain', (props, name, reason) =>
+        events.push(`beforeClose:${reason}`)
+      );
+      factory.onUnmountedModal('Plain', (props, name, reason) =>
+        events.push(`unmounted:${reason}`)
+      );
+
+      act(() => {
+        pushModal('Plain');
+      });
+      expect(events).toEqual(['beforeOpen']);
+
+      await waitFor(() => expect(events).toContain('opened'));
+
+      act(() => {
+        popModal('Plain');
+      });
+      expect(events).toEqual(['beforeOpen', 'opened', 'beforeClose:pop']);
+      expect(screen.getByText('plain')).toBeInTheDocument();
+
+      await waitFor(() => expect(events).toContain('unmounted:pop'));
+      expect(screen.queryByText('plain')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('unmounting', () => {
+    const wait = (ms: number) => act(() => new Promise((resolve) => setTimeout(resolve, ms)));
+
+    it('should unmount a closed modal once its exit animation ends', async () => {
+      const { ModalProvider, pushModal, popModal } = setup();
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Animated');
+      });
+      act(() => {
+        popModal();
+      });
+      fireEvent.animationStart(screen.getByTestId('animated'));
+      await wait(200);
+
+      expect(screen.getByTestId('animated')).toHaveAttribute('data-state', 'closed');
+
+      fireEvent.animationEnd(screen.getByTestId('animated'));
+
+      expect(screen.queryByTestId('animated')).not.toBeInTheDocument();
+    });
+
+    it('should unmount right away when nothing animates', async () => {
+      const { ModalProvider, pushModal, popModal } = setup();
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Animated');
+      });
+      act(() => {
+        popModal();
+      });
+
+      await waitFor(() => expect(screen.queryByTestId('animated')).not.toBeInTheDocument(), {
+        timeout: 200,
+      });
+    });
+
+    it('should unmount after the animation timeout', async () => {
+      const { ModalProvider, pushModal, popModal } = setup(undefined, 100);
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Animated');
+      });
+      act(() => {
+        popModal();
+      });
+      fireEvent.animationStart(screen.getByTestId('animated'));
+
+      expect(screen.getByTestId('animated')).toBeInTheDocument();
+      await waitFor(() => expect(screen.queryByTestId('animated')).not.toBeInTheDocument(), {
+        timeout: 200,
+      });
+    });
+  });
+
+  describe('dedupe', () => {
+    it('should ignore a push when an instance with the same key is open', () => {
+      const { ModalProvider, pushModal } = setup();
+      render(<ModalProvider />);
+
+      let first!: ReturnType<typeof pushModal>;
+      let second!: ReturnType<typeof pushModal>;
+      act(() => {
+        first = pushModal('User', { id: 5 });
+        second = pushModal('User', { id: 5 });
+        pushModal('User', { id: 6 });
+      });
+
+      expect(second.id).toBe(first.id);
+      expect(screen.getAllByTestId('user').map((user) => user.textContent)).toEqual([
+        'user 5',
+        'user 6',
+      ]);
+    });
+
+    it('should close the open instance with replace-existing', () => {
+      const { ModalProvider, pushModal, onCloseModal } = setup();
+      const onClose = jest.fn();
+      onCloseModal('Plain', onClose);
+      render(<ModalProvider />);
+
+      let first!: ReturnType<typeof pushModal>;
+      let second!: ReturnType<typeof pushModal>;
+      act(() => {
+        first = pushModal('Plain');
+        second = pushModal('Plain', undefined, { dedupe: 'replace-existing' });
+      });
+
+      expect(first.isOpen()).toBe(false);
+      expect(second.isOpen()).toBe(true);
+      expect(onClose).toHaveBeenCalledWith({}, 'Plain', 'replace');
+    });
+
+    it('should move the open instance to the top with bring-to-front', () => {
+      const { ModalProvider, pushModal } = setup();
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Progress', { progress: 10 });
+        pushModal('Self', { label: 'other' });
+        pushModal('Progress', { progress: 50 }, { dedupe: 'bring-to-front' });
+      });
+
+      expect(screen.getAllByTestId('progress')).toHaveLength(1);
+      expect(screen.getByTestId('progress')).toHaveTextContent('50%');
+      expect(screen.getByTestId('other')).toHaveAttribute('data-top', 'false');
+    });
+
+    it('should keep the instance but not its local state with bring-to-front', async () => {
+      const { ModalProvider, pushModal, pushModalAsync } = setup();
+      const onClose = jest.fn();
+      render(<ModalProvider />);
+
+      let first!: ReturnType<typeof pushModal>;
+      act(() => {
+        first = pushModal('Progress', { progress: 10 }, { onClose });
+      });
+      const mountedAt = screen.getByTestId('progress').dataset.mountedAt;
+
+      let brought!: Promise<undefined | typeof DISMISSED>;
+      act(() => {
+        pushModal('Self', { label: 'other' });
+        brought = pushModalAsync('Progress', { progress: 50 }, { dedupe: 'bring-to-front' });
+      });
+
+      // Mounted again, so portals and focus traps follow the new order
+      expect(screen.getByTestId('progress').dataset.mountedAt).not.toBe(mountedAt);
+      expect(first.isOpen()).toBe(true);
+
+      act(() => {
+        first.close();
+      });
+
+      expect(onClose).toHaveBeenCalledWith('pop');
+      await expect(brought).resolves.toBe(DISMISSED);
+    });
+
+    it('should resolve a deduped pushModalAsync with the result of the open instance', async () => {
+      const { ModalProvider, pushModalAsync } = setup();
+      render(<ModalProvider />);
+
+      let first!: Promise<string | typeof DISMISSED>;
+      let second!: Promise<string | typeof DISMISSED>;
+      act(() => {
+        first = pushModalAsync('Picker');
+        second = pushModalAsync('Picker', undefined, { dedupe: 'unique' });
+      });
+      fireEvent.click(screen.getByText('pick'));
+
+      await expect(first).resolves.toBe('picked');
+      await expect(second).resolves.toBe('picked');
+    });
+  });
+
+  describe('queue', () => {
+    it('should open a queued modal once the open one has closed', async () => {
+      const { ModalProvider, pushModal, popModal } = setup();
+      render(<ModalProvider />);
+
+      let queued!: ModalHandle<{ progress: number }>;
+      act(() => {
+        pushModal('Plain');
+        queued = pushModal('Progress', { progress: 1 }, { queue: true });
+      });
+
+      expect(queued.isOpen()).toBe(false);
+      expect(screen.queryByTestId('progress')).not.toBeInTheDocument();
+
+      act(() => {
+        popModal();
+      });
+
+      expect(await screen.findByTestId('progress')).toBeInTheDocument();
+      expect(screen.queryByText('plain')).not.toBeInTheDocument();
+      expect(queued.isOpen()).toBe(true);
+    });
+
+    it('should update the props of a queued modal', async () => {
+      const { ModalProvider, pushModal, popModal, getModalQueue } = setup();
+      render(<ModalProvider />);
+
+      let queued!: ModalHandle<{ progress: number }>;
+      act(() => {
+        pushModal('Plain');
+        queued = pushModal('Progress', { progress: 1 }, { queue: true });
+      });
+      act(() => {
+        queued.update(({ progress }) => ({ progress: progress + 9 }));
+      });
+
+      expect(getModalQueue()[0]?.props).toEqual({ progress: 10 });
+
+      act(() => {
+        popModal();
+      });
+
+      expect(await screen.findByTestId('progress')).toHaveTextContent('10%');
+    });
+
+    it('should keep the queued entry when its id is pushed again', async () => {
+      const { ModalProvider, pushModal, pushModalAsync, popModal, getModalQueue } = setup();
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      render(<ModalProvider />);
+
+      let promise!: Promise<undefined | typeof DISMISSED>;
+      act(() => {
+        pushModal('Plain');
+        pushModal('Progress', { progress: 1 }, { id: 'upload', queue: true });
+        pushModal('Progress', { progress: 2 }, { id: 'upload', queue: true });
+        promise = pushModalAsync('Progress', { progress: 3 }, { id: 'upload', queue: true });
+      });
+
+      expect(warn).toHaveBeenCalledWith('[swapmodal] A modal with id "upload" is already queued');
+      expect(getModalQueue()).toEqual([
+        expect.objectContaining({ id: 'upload', props: { progress: 1 } }),
+      ]);
+
+      act(() => {
+        popModal();
+      });
+      expect(await screen.findByTestId('progress')).toHaveTextContent('1%');
+      expect(getModalQueue()).toEqual([]);
+
+      act(() => {
+        popModal('upload');
+      });
+      await expect(promise).resolves.toBe(DISMISSED);
+      warn.mockRestore();
+    });
+
+    it('should order, reorder and clear the queue', async () => {
+      const {
+        ModalProvider,
+        pushModal,
+        pushModalAsync,
+        getModalQueue,
+        reorderModalQueue,
+        clearModalQueue,
+      } = setup();
+      render(<ModalProvider />);
+
+      let low!: Promise<undefined | typeof DISMISSED>;
+      let high!: ReturnType<typeof pushModal>;
+      act(() => {
+        pushModal('Plain');
+        low = pushModalAsync('Plain', undefined, { queue: true, id: 'low' });
+        high = pushModal('Self', { label: 'high' }, { queue: true, priority: 5 });
+      });
+
+      expect(getModalQueue().map(({ id }) => id)).toEqual([high.id, 'low']);
+
+      reorderModalQueue(['low']);
+
+      expect(getModalQueue().map(({ id }) => id)).toEqual(['low', high.id]);
+
+      clearModalQueue();
+
+      expect(getModalQueue()).toEqual([]);
+      await expect(low).resolves.toBe(DISMISSED);
+    });
+  });
+
+  describe('stack store', () => {
+    it('should expose the stack outside of React', () => {
+      const { pushModal, popModal, getModalStack, isModalOpen, subscribe } = setup();
+      const listener = jest.fn();
+      subscribe(listener);
+
+      expect(isModalOpen()).toBe(false);
+
+      const handle = pushModal('Progress', { progress: 10 });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(getModalStack()).toEqual([
+        { id: handle.id, name: 'Progress', props: { progress: 10 }, open: true, scope: 'default' },
+      ]);
+      expect(getModalStack()).toBe(getModalStack());
+      expect(isModalOpen('Progress')).toBe(true);
+      expect(isModalOpen(handle.id)).toBe(true);
+      expect(isModalOpen('Plain')).toBe(false);
+
+      popModal();
+
+      expect(isModalOpen()).toBe(false);
+      expect(getModalStack()[0]).toMatchObject({ open: false, reason: 'pop' });
+    });
+
+    it('should re-render useModalStack when the selected value changes', () => {
+      const { pushModal, useModalStack } = setup();
+      const Status = () => {
+        const names = useModalStack((stack) => stack.map((item) => item.name));
+        return <div data-testid="status">{names.join(',')}</div>;
+      };
+      render(<Status />);
+
+      act(() => {
+        pushModal('Plain');
+        pushModal('Progress', { progress: 1 });
+      });
+
+      expect(screen.getByTestId('status')).toHaveTextContent('Plain,Progress');
+    });
+  });
+
+  describe('steps', () => {
+    it('should move between steps without closing the modal', () => {
+      const { ModalProvider, pushModal, onPushModal } = setup();
+      const onChange = jest.fn();
+      render(<ModalProvider />);
+
+      let handle!: ReturnType<typeof pushModal>;
+      act(() => {
+        handle = pushModal('Plan', { plan: 'pro' });
+      });
+      onPushModal('*', onChange);
+
+      fireEvent.click(screen.getByText('next'));
+
+      expect(screen.queryByTestId('plan')).not.toBeInTheDocument();
+      expect(screen.getByTestId('details')).toHaveTextContent('pro@example.com');
+      expect(screen.getByTestId('details')).toHaveAttribute('data-step', '1');
+      expect(handle.isOpen()).toBe(true);
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('should keep the props of the previous steps', () => {
+      const { ModalProvider, pushModal } = setup();
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Plan', { plan: 'pro' });
+      });
+      fireEvent.click(screen.getByText('next'));
+      fireEvent.click(screen.getByText('back'));
+
+      expect(screen.getByTestId('plan')).toHaveTextContent('pro');
+      expect(screen.getByTestId('plan')).toHaveAttribute('data-step', '0');
+      expect(screen.getByTestId('plan')).toHaveAttribute('data-steps', '2');
+
+      fireEvent.click(screen.getByText('forward'));
+
+      expect(screen.getByTestId('details')).toHaveTextContent('pro@example.com');
+    });
+
+    it('should keep the overlay when moving between steps', () => {
+      const factory = createPushModal({
+        modals: {
+          First: () => {
+            const { next } = factory.useModal();
+            return (
+              <DialogContent aria-describedby={undefined}>
+                <DialogTitle>first</DialogTitle>
+                <button onClick={() => next('Second')}>next</button>
+              </DialogContent>
+            );
+          },
+          Second: () => {
+            const { back } = factory.useModal();
+            return (
+              <DialogContent aria-describedby={undefined}>
+                <DialogTitle>second</DialogTitle>
+                <button onClick={() => back()}>back</button>
+              </DialogContent>
+            );
+          },
+        },
+      });
+      const { ModalProvider, pushModal } = factory;
+      render(<ModalProvider />);
+      const getOverlays = () =>
+        // eslint-disable-next-line testing-library/no-node-access
+        Array.from(document.querySelectorAll('[data-slot="dialog-overlay"]'));
+
+      act(() => {
+        pushModal('First');
+      });
+      const [overlay] = getOverlays();
+      fireEvent.click(screen.getByText('next'));
+
+      expect(screen.getByText('second')).toBeInTheDocument();
+      expect(getOverlays()).toEqual([overlay]);
+      // Still below the content
+      expect(
+        overlay!.compareDocumentPosition(screen.getByRole('dialog')) &
+          Node.DOCUMENT_POSITION_FOLLOWING
+      ).toBeTruthy();
+
+      fireEvent.click(screen.getByText('back'));
+
+      expect(screen.getByText('first')).toBeInTheDocument();
+      expect(getOverlays()).toEqual([overlay]);
+    });
+  });
+
+  describe('defaults', () => {
+    it('should use the default wrapper, wrapper props and fallback', async () => {
+      let load!: (module: { default: () => JSX.Element }) => void;
+      const { ModalProvider, pushModal } = createPushModal({
+        Wrapper: ({ open, children, ...props }) => (
+          <div data-testid="wrapper" data-open={open} data-side={(props as any).side}>
+            {children}
+          </div>
+        ),
+        wrapperProps: { side: 'left' },
+        fallback: <div>loading</div>,
+        modals: {
+          Plain: () => <div>plain</div>,
+          Right: {
+            Component: () => <div>right</div>,
+            wrapperProps: { side: 'right' },
+          },
+          Lazy: lazy(
+            () => new Promise<{ default: () => JSX.Element }>((resolve) => (load = resolve))
+          ),
+        },
+      });
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Plain');
+        pushModal('Right');
+        pushModal('Lazy');
+      });
+
+      expect(screen.getAllByTestId('wrapper').map((wrapper) => wrapper.dataset.side)).toEqual([
+        'left',
+        'right',
+        'left',
+      ]);
+      expect(screen.getByText('loading')).toBeInTheDocument();
+
+      await act(async () => load({ default: () => <div>loaded</div> }));
+
+      expect(screen.getByText('loaded')).toBeInTheDocument();
+    });
+  });
+
+  describe('push options', () => {
+    it('should pass wrapper props to a single push', () => {
+      const Side = ({ children, side }: { children: React.ReactNode; side?: string }) => (
+        <div data-testid="side" data-side={side}>
+          {children}
+        </div>
+      );
+      const { ModalProvider, pushModal, replaceWithModal } = createPushModal({
+        modals: {
+          Panel: {
+            Wrapper: (props: { open: boolean; children: React.ReactNode; side?: string }) => (
+              <Side {...props} />
+            ),
+            Component: () => <div>panel</div>,
+            wrapperProps: { side: 'right' },
+          },
+        },
+      });
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Panel');
+        pushModal('Panel', undefined, { wrapperProps: { side: 'left' } });
+      });
+
+      expect(screen.getAllByTestId('side').map((side) => side.dataset.side)).toEqual([
+        'right',
+        'left',
+      ]);
+
+      act(() => {
+        replaceWithModal('Panel', undefined, { wrapperProps: { side: 'top' } });
+      });
+
+      expect(screen.getAllByTestId('side').map((side) => side.dataset.side)).toContain('top');
+    });
+
+    it('should call onClose with the reason', () => {
+      const { ModalProvider, pushModal, popModal, replaceWithModal } = setup();
+      const onClose = jest.fn();
+      const onReplacementClose = jest.fn();
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Plain', undefined, { onClose });
+        replaceWithModal('Plain', undefined, { onClose: onReplacementClose });
+      });
+
+      expect(onClose).toHaveBeenCalledWith('replace');
+
+      act(() => {
+        popModal();
+      });
+
+      expect(onReplacementClose).toHaveBeenCalledWith('pop');
+      expect(onClose).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('focus restore', () => {
+    const renderPage = (ModalProvider: React.ComponentType) =>
+      render(
+        <>
+          <button>open</button>
+          <button id="other">other</button>
+          <ModalProvider />
+        </>
+      );
+
+    it('should focus the element focused when pushed', async () => {
+      const { ModalProvider, pushModal, popModal } = setup();
+      renderPage(ModalProvider);
+      screen.getByText('open').focus();
+
+      act(() => {
+        pushModal('Content');
+      });
+      expect(screen.getByText('open')).not.toHaveFocus();
+
+      act(() => {
+        popModal();
+      });
+      // Restored on unmount, after the exit animation check
+      await waitFor(() => expect(screen.getByText('open')).toHaveFocus(), { timeout: 200 });
+    });
+
+    it('should skip the elements of the closed modals when unwinding', async () => {
+      const { ModalProvider, pushModal, popAllModals } = setup();
+      renderPage(ModalProvider);
+      screen.getByText('open').focus();
+
+      act(() => {
+        pushModal('Content');
+      });
+      screen.getByText('close content').focus();
+      act(() => {
+        pushModal('Content');
+      });
+      act(() => {
+        popAllModals();
+      });
+      await waitFor(() => expect(screen.getByText('open')).toHaveFocus(), { timeout: 200 });
+    });
+
+    it('should keep the element of the replaced modal', async () => {
+      const { ModalProvider, pushModal, replaceWithModal, popModal } = setup();
+      renderPage(ModalProvider);
+      screen.getByText('open').focus();
+
+      act(() => {
+        pushModal('Content');
+      });
+      act(() => {
+        replaceWithModal('Content');
+      });
+      act(() => {
+        popModal();
+      });
+      await waitFor(() => expect(screen.getByText('open')).toHaveFocus(), { timeout: 200 });
+    });
+
+    it('should focus the element given on push', async () => {
+      const { ModalProvider, pushModal, popModal } = setup();
+      renderPage(ModalProvider);
+      screen.getByText('open').focus();
+
+      act(() => {
+        pushModal('Content', undefined, { returnFocus: '#other' });
+      });
+      act(() => {
+        popModal();
+      });
+      await waitFor(() => expect(screen.getByText('other')).toHaveFocus(), { timeout: 200 });
+    });
+  });
+
+  describe('stacking', () => {
+    const setupStacked = (stacked?: boolean) =>
+      createPushModal({
+        stacked,
+        modals: {
+          Card: ({ title }: { title: string }) => (
+            <DialogContent aria-describedby={undefined}>
+              <DialogTitle>{title}</DialogTitle>
+            </DialogContent>
+          ),
+          Overlay: ({ title }: { title: string }) => {
+            const { showOverlay } = useModalStacking();
+            return <div data-testid={title} data-overlay={showOverlay} />;
+          },
+        },
+      });
+
+    it('should describe the position of each content', () => {
+      const { ModalProvider, pushModal } = setupStacked(true);
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Card', { title: 'first' });
+        pushModal('Card', { title: 'second' });
+      });
+
+      const [first, second] = screen.getAllByRole('dialog', { hidden: true });
+      expect(first).toHaveAttribute('data-stack-depth', '1');
+      expect(first).toHaveAttribute('data-stack-top', 'false');
+      expect(first).toHaveAttribute('data-stacked');
+      expect(second).toHaveAttribute('data-stack-depth', '0');
+      expect(second).toHaveAttribute('data-stack-top', 'true');
+    });
+
+    it('should only show the overlay of the top modal when stacked', () => {
+      const { ModalProvider, pushModal, popModal } = setupStacked(true);
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Overlay', { title: 'first' });
+        pushModal('Overlay', { title: 'second' });
+      });
+
+      expect(screen.getByTestId('first')).toHaveAttribute('data-overlay', 'false');
+      expect(screen.getByTestId('second')).toHaveAttribute('data-overlay', 'true');
+
+      act(() => {
+        popModal();
+      });
+
+      expect(screen.getByTestId('first')).toHaveAttribute('data-overlay', 'true');
+    });
+
+    it('should hide the overlays below the top one without unmounting them', () => {
+      const { ModalProvider, pushModal, popModal } = setupStacked(true);
+      render(<ModalProvider />);
+      const getOverlays = () =>
+        // eslint-disable-next-line testing-library/no-node-access
+        Array.from(document.querySelectorAll('[data-slot="dialog-overlay"]'));
+
+      act(() => {
+        pushModal('Card', { title: 'first' });
+      });
+      const [first] = getOverlays();
+      act(() => {
+        pushModal('Card', { title: 'second' });
+      });
+
+      expect(getOverlays()).toHaveLength(2);
+      expect(getOverlays()[0]).toBe(first);
+      expect(first).toHaveAttribute('data-overlay-hidden');
+      expect(getOverlays()[1]).not.toHaveAttribute('data-overlay-hidden');
+
+      act(() => {
+        popModal();
+      });
+
+      expect(getOverlays()[0]).toBe(first);
+      expect(first).not.toHaveAttribute('data-overlay-hidden');
+    });
+
+    it('should keep the overlay below a non-modal entry', () => {
+      const { ModalProvider, pushModal } = setupStacked(true);
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Overlay', { title: 'first' });
+        pushModal('Overlay', { title: 'side' }, { wrapperProps: { modal: false } });
+      });
+
+      expect(screen.getByTestId('first')).toHaveAttribute('data-overlay', 'true');
+      expect(screen.getByTestId('side')).toHaveAttribute('data-overlay', 'false');
+    });
+
+    it('should keep every overlay by default', () => {
+      const { ModalProvider, pushModal } = setupStacked();
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Overlay', { title: 'first' });
+        pushModal('Overlay', { title: 'second' });
+      });
+
+      expect(screen.getByTestId('first')).toHaveAttribute('data-overlay', 'true');
+    });
+  });
+
+  describe('nested drawers', () => {
+    type WrapperProps = {
+      children: React.ReactNode;
+      shouldScaleBackground?: boolean;
+      noBodyStyles?: boolean;
+    };
+    const setupDrawers = () =>
+      createPushModal({
+        Wrapper: ({ children, shouldScaleBackground }: WrapperProps) => (
+          <div data-testid="drawer" data-scale={shouldScaleBackground}>
+            {children}
+          </div>
+        ),
+        NestedWrapper: ({ children }: WrapperProps) => <div data-testid="nested">{children}</div>,
+        wrapperProps: { shouldScaleBackground: true },
+        modals: {
+          Drawer: ({ title }: { title: string }) => <div>{title}</div>,
+          Counter: () => {
+            const [count, setCount] = useState(0);
+            return <button onClick={() => setCount(count + 1)}>count {count}</button>;
+          },
+          Dialog: {
+            Wrapper: ({ children }: WrapperProps) => <div data-testid="dialog">{children}</div>,
+            Component: () => <div>dialog</div>,
+          },
+        },
+      });
+
+    it('should render a drawer inside the drawer below it', () => {
+      const { ModalProvider, pushModal } = setupDrawers();
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Drawer', { title: 'first' });
+        pushModal('Drawer', { title: 'second' });
+      });
+
+      const nested = within(screen.getByTestId('drawer')).getByTestId('nested');
+      expect(nested).toHaveTextContent('second');
+    });
+
+    it('should not nest a drawer opened above a dialog', () => {
+      const { ModalProvider, pushModal } = setupDrawers();
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Drawer', { title: 'first' });
+        pushModal('Dialog');
+        pushModal('Drawer', { title: 'second' });
+      });
+
+      expect(screen.queryByTestId('nested')).not.toBeInTheDocument();
+      expect(screen.getAllByTestId('drawer').map((drawer) => drawer.dataset.scale)).toEqual([
+        'true',
+        'false',
+      ]);
+    });
+
+    it('should keep a drawer mounted in its parent when the parent closes first', async () => {
+      const { ModalProvider, pushModal, popModal } = setupDrawers();
+      render(<ModalProvider />);
+
+      let first!: ReturnType<typeof pushModal>;
+      act(() => {
+        first = pushModal('Drawer', { title: 'first' });
+        pushModal('Counter');
+      });
+      fireEvent.click(screen.getByText('count 0'));
+      act(() => {
+        popModal(first.id);
+      });
+
+      await waitFor(() => expect(screen.queryByText('first')).not.toBeInTheDocument(), {
+        timeout: 200,
+      });
+      expect(within(screen.getByTestId('nested')).getByRole('button')).toHaveTextContent('count 1');
+
+      act(() => {
+        popModal();
+      });
+      await waitFor(() => expect(screen.queryByTestId('drawer')).not.toBeInTheDocument(), {
+        timeout: 200,
+      });
+    });
+
+    it('should leave the page to the lowest modal and make the ones below the top inert', () => {
+      const drawerProps = jest.fn();
+      const { ModalProvider, pushModal, popModal } = createPushModal({
+        modals: {
+          Dialog: {
+            Wrapper: Dialog,
+            Component: () => (
+              <DialogContent data-testid="dialog" aria-describedby={undefined}>
+                <DialogTitle>dialog</DialogTitle>
+              </DialogContent>
+            ),
+          },
+          Drawer: {
+            Wrapper: ({ children, shouldScaleBackground, noBodyStyles }: WrapperProps) => {
+              drawerProps({ shouldScaleBackground, noBodyStyles });
+              return <>{children}</>;
+            },
+            NestedWrapper: ({ children }: WrapperProps) => <>{children}</>,
+            wrapperProps: { shouldScaleBackground: true },
+            Component: () => <div data-testid="drawer" {...useModalStacking().attributes} />,
+          },
+          Sheet: {
+            Wrapper: Sheet,
+            Component: () => (
+              <SheetContent data-testid="sheet" aria-describedby={undefined}>
+                <SheetTitle>sheet</SheetTitle>
+              </SheetContent>
+            ),
+          },
+        },
+      });
+      render(<ModalProvider />);
+
+      act(() => {
+        pushModal('Dialog');
+        pushModal('Drawer');
+        pushModal('Sheet');
+      });
+
+      expect(drawerProps).toHaveBeenLastCalledWith({
+        shouldScaleBackground: false,
+        noBodyStyles: true,
+      });
+      expect(screen.getByTestId('dialog')).toHaveAttribute('inert');
+      expect(screen.getByTestId('drawer')).toHaveAttribute('inert');
+      expect(screen.getByTestId('sheet')).not.toHaveAttribute('inert');
+
+      act(() => {
+        popModal();
+      });
+
+      expect(screen.getByTestId('dialog')).toHaveAttribute('inert');
+      expect(screen.getByTestId('drawer')).not.toHaveAttribute('inert');
+    });
+  });
+
+  describe('error boundaries', () => {
+    const Broken = ({ fail }: { fail: { current: boolean } }) => {
+      if (fail.current) {
+        throw new Error('broken');
+      }
+      return <div>repaired</div>;
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should render the fallback and retry', () => {
+      const onError = jest.fn();
+      const { ModalProvider, pushModal } = createPushModal({
+        onError,
+        errorFallback: ({ retry }) => <button onClick={retry}>retry</button>,
+        modals: { Broken, Plain: () => <div>plain</div> },
+      });
+      render(
+        <>
+          <div>app</div>
+          <ModalProvider />
+        </>
+      );
+      const fail = { current: true };
+
+      let handle!: ReturnType<typeof pushModal>;
+      act(() => {
+        pushModal('Plain');
+        handle = pushModal('Broken', { fail });
+      });
+
+      expect(screen.getByText('app')).toBeInTheDocument();
+      expect(screen.getByText('plain')).toBeInTheDocument();
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'broken' }), {
+        id: handle.id,
+        name: 'Broken',
+        props: { fail },
+      });
+
+      fail.current = false;
+      fireEvent.click(screen.getByText('retry'));
+
+      expect(screen.getByText('repaired')).toBeInTheDocument();
+    });
+
+    it('should close a modal that throws without a fallback', () => {
+      const { ModalProvider, pushModal, onCloseModal } = createPushModal({
+        modals: { Broken },
+      });
+      const onClose = jest.fn();
+      onCloseModal('Broken', onClose);
+      render(<ModalProvider />);
+
+      const fail = { current: true };
+
+      let handle!: ReturnType<typeof pushModal>;
+      act(() => {
+        handle = pushModal('Broken', { fail });
+      });
+
+      expect(handle.isOpen()).toBe(false);
+      expect(onClose).toHaveBeenCalledWith(expect.anything(), 'Broken', 'error');
+    });
+  });
+
+  describe('headless', () => {
+    it('should hand the items over to a custom renderer', () => {
+      const { useModalItems, pushModal, onUnmountedModal } = setup();
+      const onUnmounted = jest.fn();
+      onUnmountedModal('*', onUnmounted);
+      const Stack = () => (
+        <>
+          {useModalItems().map(({ renderKey, open, children, close, onExited }) => (
+            <section key={renderKey} data-testid="item" data-open={open}>
+              {children}
+              <button onClick={() => close()}>close item</button>
+              <button onClick={onExited}>exited</button>
+            </section>
+          ))}
+        </>
+      );
+      render(<Stack />);
+
+      act(() => {
+        pushModal('Self', { label: 'headless' });
+      });
+
+      expect(screen.getByTestId('headless')).toHaveAttribute('data-top', 'true');
+
+      fireEvent.click(screen.getByText('close item'));
+
+      expect(screen.getByTestId('item')).toHaveAttribute('data-open', 'false');
+
+      fireEvent.click(screen.getByText('exited'));
+
+      expect(screen.queryByTestId('item')).not.toBeInTheDocument();
+      expect(onUnmounted).toHaveBeenCalledWith({ label: 'headless' }, 'Self', 'pop');
+    });
+  });
+
+  describe('scopes', () => {
+    it('should render each modal only in the provider of its scope', () => {
+      const { ModalProvider, pushModal, popModal } = setup();
+      render(
+        <>
+          <div data-testid="app-root">
+            <ModalProvider />
+          </div>
+          <div data-testid="widget-root">
+            <ModalProvider scope="widget" />
+          </div>
+        </>
+      );
+
+      act(() => {
+        pushModal('Self', { label: 'app' });
+        pushModal('Self', { label: 'widget' }, { scope: 'widget' });
+      });
+
+      expect(screen.getByTestId('app-root')).toContainElement(screen.getByTestId('app'));
+      expect(screen.getByTestId('widget-root')).toContainElement(screen.getByTestId('widget'));
+      expect(screen.getByTestId('app')).toHaveAttribute('data-top', 'true');
+      expect(screen.getByTestId('widget')).toHaveAttribute('data-top', 'true');
+
+      act(() => {
+        popModal(undefined, { scope: 'widget' });
+      });
+
+      expect(screen.getByTestId('widget')).toHaveAttribute('data-open', 'false');
+      expect(screen.getByTestId('app')).toHaveAttribute('data-open', 'true');
+    });
+
+    it('should warn when two providers share a scope', () => {
+      const { ModalProvider } = setup();
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      render(
+        <>
+          <ModalProvider />
+          <ModalProvider />
+        </>
+      );
+
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('scope "default"'));
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { render, act, waitFor } from '@testing-library/react';
+import { createPushModal } from '../factory';
+
+function setup(beforeClose: () => boolean = () => true, url = false) {
+  return createPushModal({
+    history: true,
+    url: url ? {} : undefined,
+    modals: {
+      Plain: () => <div>plain</div>,
+      Other: () => <div>other</div>,
+      Guarded: {
+        Component: () => <div>guarded</div>,
+        url: true,
+        beforeClose,
+      },
+    },
+  });
+}
+
+const depth = () => (window.history.state?.swapmodalDepth as number | undefined) ?? 0;
+
+describe('history integration', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('should close the top modal when navigating back', async () => {
+    const { ModalProvider, pushModal, onCloseModal } = setup();
+    const onClose = jest.fn();
+    onCloseModal('*', onClose);
+    render(<ModalProvider />);
+
+    let first!: ReturnType<typeof pushModal>;
+    let second!: ReturnType<typeof pushModal>;
+    act(() => {
+      first = pushModal('Plain');
+      second = pushModal('Other');
+    });
+    expect(depth()).toBe(2);
+
+    act(() => {
+      window.history.back();
+    });
+
+    await waitFor(() => expect(second.isOpen()).toBe(false));
+    expect(first.isOpen()).toBe(true);
+    expect(onClose).toHaveBeenCalledWith({}, 'Other', 'navigation');
+    expect(depth()).toBe(1);
+  });
+
+  it('should go back once when modals are closed programmatically', async () => {
+    const { ModalProvider, pushModal, popAllModals } = setup();
+    render(<ModalProvider />);
+
+    let first!: ReturnType<typeof pushModal>;
+    act(() => {
+      first = pushModal('Plain');
+      pushModal('Other');
+    });
+    const go = jest.spyOn(window.history, 'go');
+
+    act(() => {
+      popAllModals();
+    });
+
+    await waitFor(() => expect(depth()).toBe(0));
+    expect(go).toHaveBeenCalledTimes(1);
+    expect(go).toHaveBeenCalledWith(-2);
+    expect(first.isOpen()).toBe(false);
+    go.mockRestore();
+  });
+
+  it('should not navigate when replacing a modal', async () => {
+    const { ModalProvider, pushModal, replaceWithModal } = setup();
+    render(<ModalProvider />);
+
+    act(() => {
+      pushModal('Plain');
+    });
+    const go = jest.spyOn(window.history, 'go');
+    const pushState = jest.spyOn(window.history, 'pushState');
+
+    act(() => {
+      replaceWithModal('Other');
+    });
+    await act(() => Promise.resolve());
+
+    expect(go).not.toHaveBeenCalled();
+    expect(pushState).not.toHaveBeenCalled();
+    expect(depth()).toBe(1);
+    go.mockRestore();
+    pushState.mockRestore();
+  });
+
+  it('should add the entry back when a guard keeps the modal open', async () => {
+    const { ModalProvider, pushModal } = setup(() => false);
+    render(<ModalProvider />);
+
+    let handle!: ReturnType<typeof pushModal>;
+    act(() => {
+      handle = pushModal('Guarded');
+    });
+
+    act(() => {
+      window.history.back();
+    });
+
+    await waitFor(() => expect(depth()).toBe(1));
+    expect(handle.isOpen()).toBe(true);
+  });
+
+  it('should add the entry and the URL back when a guard keeps a synced modal open', async () => {
+    const beforeClose = jest.fn(() => false);
+    const { ModalProvider, pushModal } = setup(beforeClose, true);
+    render(<ModalProvider />);
+
+    let handle!: ReturnType<typeof pushModal>;
+    act(() => {
+      handle = pushModal('Guarded');
+    });
+    expect(window.location.search).toBe(`?modal=${encodeURIComponent('[["Guarded",{}]]')}`);
+
+    act(() => {
+      window.history.back();
+    });
+
+    await waitFor(() => expect(beforeClose).toHaveBeenCalledWith('navigation', {}));
+    await waitFor(() => expect(depth()).toBe(1));
+    expect(handle.isOpen()).toBe(true);
+    expect(beforeClose).toHaveBeenCalledTimes(1);
+    expect(new URL(window.location.href).searchParams.get('modal')).toBe('[["Guarded",{}]]');
+  });
+});
@@ -0,0 +1,60 @@
+import { render, screen, act, fireEvent } from '@testing-library/react';
+import { createPushModal } from '../factory';
+import { lazyModal } from '../lazy';
+
+function setup() {
+  const load = jest.fn(() =>
+    Promise.resolve({ default: ({ id }: { id: number }) => <div>user {id}</div> })
+  );
+  const factory = createPushModal({
+    fallback: <div>loading</div>,
+    modals: {
+      EditUser: lazyModal(load),
+      Search: {
+        Component: lazyModal(() =>
+          Promise.resolve(({ query }: { query: string }) => <div>search {query}</div>)
+        ),
+      },
+    },
+  });
+  return { ...factory, load };
+}
+
+describe('lazyModal', () => {
+  it('should show the fallback until the component has loaded', async () => {
+    const { ModalProvider, pushModal } = setup();
+    render(<ModalProvider />);
+
+    act(() => {
+      pushModal('Search', { query: 'john' });
+    });
+
+    expect(screen.getByText('loading')).toBeInTheDocument();
+    expect(await screen.findByText('search john')).toBeInTheDocument();
+  });
+
+  it('should render a preloaded modal right away', async () => {
+    const { ModalProvider, pushModal, preloadModal, load } = setup();
+    render(<ModalProvider />);
+
+    await preloadModal('EditUser');
+    act(() => {
+      pushModal('EditUser', { id: 5 });
+    });
+
+    expect(screen.queryByText('loading')).not.toBeInTheDocument();
+    expect(screen.getByText('user 5')).toBeInTheDocument();
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should preload once from the trigger handlers', async () => {
+    const { getPreloadHandlers, load } = setup();
+    render(<button {...getPreloadHandlers('EditUser')}>edit</button>);
+
+    fireEvent.pointerEnter(screen.getByText('edit'));
+    fireEvent.focus(screen.getByText('edit'));
+    await act(() => Promise.resolve());
+
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,105 @@
+import { render, screen, act } from '@testing-library/react';
+import { createResponsiveWrapper } from '../responsive';
+
+let matching: string[] = [];
+const listeners = new Set<() => void>();
+
+const setMatching = (queries: string[]) => {
+  matching = queries;
+  listeners.forEach((listener) => listener());
+};
+
+const fake = (name: string) => ({
+  Wrapper: ({ children }: { children?: React.ReactNode }) => (
+    <div data-testid="wrapper" data-variant={name}>
+      {children}
+    </div>
+  ),
+  Content: ({ children }: { children?: React.ReactNode }) => (
+    <div data-testid="content" data-variant={name}>
+      {children}
+    </div>
+  ),
+});
+
+function setup() {
+  const Responsive = createResponsiveWrapper({
+    variants: [
+      { name: 'phone', query: '(max-width: 640px)', ...fake('phone') },
+      { name: 'tablet', query: '(pointer: coarse)', ...fake('tablet') },
+      { name: 'desktop', ...fake('desktop') },
+    ],
+  });
+  function Modal() {
+    const variant = Responsive.useVariant();
+    return <Responsive.Content>{variant}</Responsive.Content>;
+  }
+  return { ...Responsive, Modal };
+}
+
+describe('createResponsiveWrapper', () => {
+  beforeEach(() => {
+    matching = [];
+    window.matchMedia = (query: string) =>
+      ({
+        media: query,
+        get matches() {
+          return matching.includes(query);
+        },
+        addEventListener: (_: string, listener: () => void) => listeners.add(listener),
+        removeEventListener: (_: string, listener: () => void) => listeners.delete(listener),
+      }) as unknown as MediaQueryList;
+  });
+
+  it('should render the first variant whose query matches', () => {
+    const { Wrapper, Modal } = setup();
+    setMatching(['(pointer: coarse)']);
+    render(
+      <Wrapper>
+        <Modal />
+      </Wrapper>
+    );
+
+    expect(screen.getByTestId('wrapper')).toHaveAttribute('data-variant', 'tablet');
+    expect(screen.getByTestId('content')).toHaveAttribute('data-variant', 'tablet');
+    expect(screen.getByTestId('content')).toHaveTextContent('tablet');
+  });
+
+  it('should switch variants when a query changes', () => {
+    const { Wrapper, Modal } = setup();
+    render(
+      <Wrapper>
+        <Modal />
+      </Wrapper>
+    );
+
+    expect(screen.getByTestId('content')).toHaveTextContent('desktop');
+
+    act(() => {
+      setMatching(['(max-width: 640px)', '(pointer: coarse)']);
+    });
+
+    expect(screen.getByTestId('wrapper')).toHaveAttribute('data-variant', 'phone');
+    expect(screen.getByTestId('content')).toHaveTextContent('phone');
+  });
+
+  it('should keep supporting mobile and desktop', () => {
+    const { Wrapper, Content, useVariant } = createResponsiveWrapper({
+      mobile: fake('mobile'),
+      desktop: fake('desktop'),
+      breakpoint: 768,
+    });
+    function Modal() {
+      return <Content>{useVariant()}</Content>;
+    }
+    setMatching(['(max-width: 768px)']);
+    render(
+      <Wrapper>
+        <Modal />
+      </Wrapper>
+    );
+
+    expect(screen.getByTestId('content')).toHaveAttribute('data-variant', 'mobile');
+    expect(screen.getByTestId('content')).toHaveTextContent('mobile');
+  });
+});
@@ -0,0 +1,141 @@
+import { render, screen, act } from '@testing-library/react';
+import { createPushModal } from '../factory';
+import { createHashAdapter } from '../url';
+
+function setup(adapter?: ReturnType<typeof createHashAdapter>, beforeClose = () => true) {
+  return createPushModal({
+    url: { adapter },
+    modals: {
+      EditUser: {
+        Component: ({ id }: { id: number }) => <div>edit user {id}</div>,
+        url: true,
+      },
+      Search: {
+        Component: ({ query }: { query: string; onSelect?: () => void }) => (
+          <div>search {query}</div>
+        ),
+        url: {
+          serialize: ({ query }) => query,
+          parse: (value) => {
+            if (typeof value !== 'string') {
+              throw new Error('bad');
+            }
+            return { query: value };
+          },
+        },
+      },
+      Local: () => <div>local</div>,
+      Guarded: {
+        Component: () => <div>guarded</div>,
+        url: true,
+        beforeClose,
+      },
+    },
+  });
+}
+
+describe('url sync', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('should restore the stack from the URL', () => {
+    window.history.replaceState(
+      null,
+      '',
+      `/?modal=${encodeURIComponent('[["EditUser",{"id":5}]]')}`
+    );
+    const { ModalProvider } = setup();
+
+    render(<ModalProvider />);
+
+    expect(screen.getByText('edit user 5')).toBeInTheDocument();
+  });
+
+  it('should drop the entries that fail to parse', () => {
+    window.history.replaceState(
+      null,
+      '',
+      `/?modal=${encodeURIComponent('[["Search",5],["EditUser",{"id":5}]]')}`
+    );
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { ModalProvider } = setup();
+
+    render(<ModalProvider />);
+
+    expect(screen.getByText('edit user 5')).toBeInTheDocument();
+    expect(screen.queryByText(/search/)).not.toBeInTheDocument();
+    expect(warn).toHaveBeenCalledWith(
+      '[swapmodal] Could not restore the modal "Search" from the URL',
+      expect.any(Error)
+    );
+    expect(new URL(window.location.href).searchParams.get('modal')).toBe('[["EditUser",{"id":5}]]');
+    warn.mockRestore();
+  });
+
+  it('should write the modals opting in to the URL', () => {
+    const { ModalProvider, pushModal, popModal } = setup();
+    render(<ModalProvider />);
+
+    act(() => {
+      pushModal('EditUser', { id: 1 });
+      pushModal('Local');
+      pushModal('Search', { query: 'john', onSelect: () => {} });
+    });
+
+    expect(new URL(window.location.href).searchParams.get('modal')).toBe(
+      '[["EditUser",{"id":1}],["Search","john"]]'
+    );
+
+    act(() => {
+      popModal('Search');
+      popModal('EditUser');
+    });
+
+    expect(window.location.search).toBe('');
+  });
+
+  it('should follow URL changes made outside of swapmodal', () => {
+    const { ModalProvider, pushModal } = setup(createHashAdapter());
+    render(<ModalProvider />);
+
+    let first!: ReturnType<typeof pushModal>;
+    let second!: ReturnType<typeof pushModal>;
+    act(() => {
+      first = pushModal('EditUser', { id: 1 });
+      second = pushModal('EditUser', { id: 2 });
+    });
+
+    expect(window.location.hash).toBe(
+      `#modal=${encodeURIComponent('[["EditUser",{"id":1}],["EditUser",{"id":2}]]')}`
+    );
+
+    act(() => {
+      window.history.replaceState(null, '', '/#modal=[["EditUser",{"id":1}]]');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+    });
+
+    expect(first.isOpen()).toBe(true);
+    expect(second.isOpen()).toBe(false);
+  });
+
+  it('should write the modal back when a guard keeps it open', () => {
+    const beforeClose = jest.fn(() => false);
+    const { ModalProvider, pushModal } = setup(undefined, beforeClose);
+    render(<ModalProvider />);
+
+    let handle!: ReturnType<typeof pushModal>;
+    act(() => {
+      handle = pushModal('Guarded');
+    });
+
+    act(() => {
+      window.history.replaceState(null, '', '/');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+    });
+
+    expect(beforeClose).toHaveBeenCalledTimes(1);
+    expect(handle.isOpen()).toBe(true);
+    expect(new URL(window.location.href).searchParams.get('modal')).toBe('[["Guarded",{}]]');
+  });
+});
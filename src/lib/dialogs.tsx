@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { AlertDialog } from 'radix-ui';
+import type { VariantProps } from 'class-variance-authority';
+import { buttonVariants } from '../components/button';
+import { useModalDismiss } from './dismiss';
+import { useModalOverlay, useModalStacking } from './stacking';
+
+export type DialogType = 'alert' | 'confirm' | 'prompt';
+
+export interface DialogOptions {
+  title: React.ReactNode;
+  description?: React.ReactNode;
+  /** @default 'OK' */
+  confirmLabel?: React.ReactNode;
+  /** @default 'Cancel' */
+  cancelLabel?: React.ReactNode;
+  /**
+   * Variant of the confirm button, `destructive` for irreversible actions
+   * @default 'default'
+   */
+  variant?: VariantProps<typeof buttonVariants>['variant'];
+}
+
+export interface PromptOptions extends DialogOptions {
+  defaultValue?: string;
+  placeholder?: string;
+}
+
+/** Props received by the component rendering `confirm`, `alert` and `prompt` */
+export interface DialogProps extends PromptOptions {
+  type: DialogType;
+  /** Pass `true` to confirm, or the entered text for `prompt`. Closing without it cancels */
+  resolve: (value: boolean | string) => void;
+}
+
+/** Built-in rendering of `confirm`, `alert` and `prompt`, rendered inside `AlertDialog.Root` */
+export function AlertDialogModal({
+  type,
+  title,
+  description,
+  confirmLabel = 'OK',
+  cancelLabel = 'Cancel',
+  variant = 'default',
+  defaultValue = '',
+  placeholder,
+  resolve,
+}: DialogProps) {
+  const [value, setValue] = useState(defaultValue);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const stacking = useModalStacking();
+  const dismiss = useModalDismiss();
+  const overlay = useModalOverlay(
+    <AlertDialog.Overlay
+      data-slot="alert-dialog-overlay"
+      {...stacking.overlayAttributes}
+      className="data-open:animate-in data-closed:animate-out data-closed:fade-out-0 data-open:fade-in-0 bg-black/10 duration-100 supports-backdrop-filter:backdrop-blur-xs fixed inset-0 isolate z-50 transition-opacity data-overlay-hidden:opacity-0"
+    />
+  );
+
+  return (
+    <AlertDialog.Portal>
+      {overlay}
+      <AlertDialog.Content
+        data-slot="alert-dialog-content"
+        {...stacking.attributes}
+        {...dismiss}
+        className="bg-background data-open:animate-in data-closed:animate-out data-closed:fade-out-0 data-open:fade-in-0 data-closed:zoom-out-95 data-open:zoom-in-95 ring-foreground/10 grid max-w-[calc(100%-2rem)] gap-4 rounded-xl p-4 text-sm ring-1 duration-100 sm:max-w-sm fixed top-1/2 left-1/2 z-50 w-full -translate-x-1/2 -translate-y-1/2 outline-none"
+        onOpenAutoFocus={(event) => {
+          if (inputRef.current) {
+            event.preventDefault();
+            inputRef.current.select();
+          }
+        }}
+        {...(description ? {} : { 'aria-describedby': undefined })}
+      >
+        <form
+          className="grid gap-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            resolve(type === 'prompt' ? value : true);
+          }}
+        >
+          <div className="gap-2 flex flex-col">
+            <AlertDialog.Title className="text-base leading-none font-medium">
+              {title}
+            </AlertDialog.Title>
+            {description && (
+              <AlertDialog.Description className="text-muted-foreground text-sm">
+                {description}
+              </AlertDialog.Description>
+            )}
+          </div>
+          {type === 'prompt' && (
+            <input
+              ref={inputRef}
+              value={value}
+              placeholder={placeholder}
+              onChange={(event) => setValue(event.target.value)}
+              className="border-input h-8 w-full rounded-lg border bg-transparent px-2.5 text-sm outline-none focus-visible:ring-3 focus-visible:ring-ring/50"
+            />
+          )}
+          <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+            {type !== 'alert' && (
+              <AlertDialog.Cancel
+                data-slot="alert-dialog-cancel"
+                type="button"
+                className={buttonVariants({ variant: 'outline' })}
+              >
+                {cancelLabel}
+              </AlertDialog.Cancel>
+            )}
+            <button type="submit" className={buttonVariants({ variant })}>
+              {confirmLabel}
+            </button>
+          </div>
+        </form>
+      </AlertDialog.Content>
+    </AlertDialog.Portal>
+  );
+}
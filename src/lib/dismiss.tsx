@@ -0,0 +1,47 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+
+export type DismissReason = 'escape' | 'outside';
+
+export interface DismissHandlers {
+  onEscapeKeyDown?: (event: KeyboardEvent) => void;
+  onPointerDownOutside?: (event: CustomEvent<{ originalEvent: PointerEvent }>) => void;
+}
+
+// Set by the provider around each modal, the wrappers only report `onOpenChange(false)`
+export const ModalDismissContext = createContext<(reason: DismissReason) => void>(() => {});
+
+/**
+ * Handlers for the Radix or vaul content telling swapmodal why the modal is dismissed,
+ * so `onCloseModal` receives `escape` and `outside` instead of `dismiss`.
+ * Your own handlers run first, preventing the event keeps the modal open as usual
+ *
+ * @example
+ * ```tsx
+ * function MyContent({ onEscapeKeyDown, onPointerDownOutside, ...props }: ContentProps) {
+ *   const dismiss = useModalDismiss({ onEscapeKeyDown, onPointerDownOutside })
+ *   return <DialogPrimitive.Content {...props} {...dismiss} />
+ * }
+ * ```
+ */
+export function useModalDismiss({
+  onEscapeKeyDown,
+  onPointerDownOutside,
+}: DismissHandlers = {}): Required<DismissHandlers> {
+  const report = useContext(ModalDismissContext);
+  return {
+    onEscapeKeyDown: (event) => {
+      onEscapeKeyDown?.(event);
+      if (!event.defaultPrevented) {
+        report('escape');
+      }
+    },
+    onPointerDownOutside: (event) => {
+      onPointerDownOutside?.(event);
+      if (!event.defaultPrevented) {
+        report('outside');
+      }
+    },
+  };
+}
@@ -1,7 +1,7 @@
-import { createPushModal, createResponsiveWrapper } from '../';
+import { createPushModal, createResponsiveWrapper, DISMISSED, lazyModal } from '../';
 import { SheetContent } from '../components/sheet';
 import { Dialog, DialogContent } from '../components/dialog';
-import { Drawer, DrawerContent } from '../components/drawer';
+import { Drawer, DrawerContent, DrawerNested } from '../components/drawer';
 import { useEffect } from 'react';
 
 const Responsive = createResponsiveWrapper({
@@ -20,11 +20,13 @@ const {
   onPushModal,
   useOnPushModal,
   pushModal,
+  pushModalAsync,
   popAllModals,
   replaceWithModal,
   ModalProvider,
   onCloseModal,
   useOnCloseModal,
+  getPreloadHandlers,
 } = createPushModal({
   modals: {
     ModalExample: () => {
@@ -94,16 +96,49 @@ const {
     DrawerExample: {
       Component: () => <DrawerContent>Drawer</DrawerContent>,
       Wrapper: Drawer,
+      NestedWrapper: DrawerNested,
     },
     DrawerExampleWithProps: {
       Component: ({ int }: { int: number }) => <DrawerContent>Drawer</DrawerContent>,
       Wrapper: Drawer,
+      NestedWrapper: DrawerNested,
     },
     WithProps: (props: { num: number; str: string; bool: boolean }) => (
       <DialogContent>
         <pre>{JSON.stringify(props, null, 2)}</pre>
       </DialogContent>
     ),
+    ConfirmExample: ({
+      message,
+      resolve,
+    }: {
+      message: string;
+      resolve: (confirmed: boolean) => void;
+    }) => (
+      <DialogContent>
+        <p>{message}</p>
+        <div className="flex gap-4">
+          <button
+            className="bg-black text-white px-4 py-2 rounded-md"
+            onClick={() => resolve(true)}
+          >
+            Confirm
+          </button>
+          <button
+            className="bg-black text-white px-4 py-2 rounded-md"
+            onClick={() => resolve(false)}
+          >
+            Cancel
+          </button>
+        </div>
+      </DialogContent>
+    ),
+    // Usually `lazyModal(() => import('./lazy-example'))`
+    LazyExample: lazyModal(() =>
+      Promise.resolve({
+        default: ({ title }: { title: string }) => <DialogContent>{title}</DialogContent>,
+      })
+    ),
     Dynamic: {
       Component: () => (
         <Responsive.Content>
@@ -187,6 +222,21 @@ export function FactoryExample() {
       str: 'string',
       bool: true,
     });
+
+    // eslint-disable-next-line
+    // @ts-expect-error
+    pushModalAsync('ConfirmExample');
+
+    // eslint-disable-next-line
+    // @ts-expect-error
+    pushModal('LazyExample');
+
+    pushModal('LazyExample', { title: 'Loaded on demand' });
+
+    pushModalAsync('ConfirmExample', { message: 'Sure?' }).then((result) => {
+      const confirmed: boolean | typeof DISMISSED = result;
+      console.log(confirmed);
+    });
   }
 
   return (
@@ -211,6 +261,13 @@ export function FactoryExample() {
         >
           Open Drawer
         </button>
+        <button
+          className="bg-black text-white px-4 py-2 rounded-md"
+          {...getPreloadHandlers('LazyExample')}
+          onClick={() => pushModal('LazyExample', { title: 'Preloaded on hover' })}
+        >
+          Open Lazy
+        </button>
         <button
           className="bg-black text-white px-4 py-2 rounded-md"
           onClick={() => pushModal('Dynamic')}
@@ -229,6 +286,15 @@ export function FactoryExample() {
         >
           Open with props
         </button>
+        <button
+          className="bg-black text-white px-4 py-2 rounded-md"
+          onClick={async () => {
+            const result = await pushModalAsync('ConfirmExample', { message: 'Are you sure?' });
+            console.log('ConfirmExample result', result === DISMISSED ? 'dismissed' : result);
+          }}
+        >
+          Open and await result
+        </button>
       </div>
     </div>
   );
@@ -1,188 +1,1599 @@
 'use client';
 
-import React, { Suspense, useEffect, useState } from 'react';
+import React, {
+  Suspense,
+  createContext,
+  useContext,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from 'react';
+import { createPortal } from 'react-dom';
 import mitt, { Handler } from 'mitt';
-import { Dialog } from 'radix-ui';
+import { AlertDialog, Dialog } from 'radix-ui';
+import { AlertDialogModal, DialogOptions, DialogProps, DialogType, PromptOptions } from './dialogs';
+import { ModalDismissContext } from './dismiss';
+import { isLazyModal } from './lazy';
+import { ModalOverlayContext, ModalStackingContext } from './stacking';
+import { createSearchParamAdapter, ModalUrlAdapter, ModalUrlSerializer } from './url';
+
+type ModalWrapper = React.ComponentType<{
+  open: boolean;
+  onOpenChange: (open?: boolean) => void;
+  children: React.ReactNode;
+  defaultOpen?: boolean;
+}>;
+
+// Extra props of the wrapper (`side`, `direction`, `modal`...), the wrapper handles `open` itself
+type WrapperProps = Record<string, unknown>;
 
 interface CreatePushModalOptions<T> {
   modals: {
     [key in keyof T]:
       | {
-          Wrapper: React.ComponentType<{
-            open: boolean;
-            onOpenChange: (open?: boolean) => void;
-            children: React.ReactNode;
-            defaultOpen?: boolean;
-          }>;
+          /** @default the `Wrapper` passed to `createPushModal` */
+          Wrapper?: ModalWrapper;
+          /**
+           * Marks a drawer: pushed right above another drawer, it renders inside of it with
+           * this wrapper, `DrawerNested` (vaul's `NestedRoot`)
+           * @default the `NestedWrapper` passed to `createPushModal` when `Wrapper` is not set
+           */
+          NestedWrapper?: ModalWrapper;
           Component: React.ComponentType<T[key]>;
+          /** Props passed to the wrapper, merged over the `wrapperProps` of `createPushModal` */
+          wrapperProps?: WrapperProps;
+          /**
+           * Shown while a lazy component loads
+           * @default the `fallback` passed to `createPushModal`
+           */
+          fallback?: React.ReactNode;
+          /**
+           * Rendered in place of the component when it throws
+           * @default the `errorFallback` passed to `createPushModal`
+           */
+          errorFallback?: React.ComponentType<ModalErrorFallbackProps>;
+          /**
+           * Max time in milliseconds to wait for the enter/exit animation to finish
+           * @default the `animationTimeout` passed to `createPushModal`
+           */
+          animationTimeout?: number;
+          /** Runs before the modal closes, return `false` to keep it open */
+          beforeClose?: (
+            reason: CloseReason,
+            props: T[key]
+          ) => boolean | void | Promise<boolean | void>;
+          /**
+           * Keep this modal in the URL when `url` sync is enabled, `true` stores the props
+           * as JSON, pass a serializer to convert them or to leave some out
+           */
+          url?: boolean | ModalUrlSerializer<T[key]>;
+          /**
+           * What to do when this modal is pushed while already open
+           * @default 'allow-multiple'
+           */
+          dedupe?: DedupeOptions<T[key]>;
         }
       | React.ComponentType<T[key]>;
   };
+  /**
+   * Sync the open modals of a scope with the URL, only modals opting in with `url`
+   * are stored. Uses the `modal` query parameter unless an adapter is given
+   */
+  url?: ScopeOptions & {
+    adapter?: ModalUrlAdapter;
+  };
+  /**
+   * Add a history entry for every modal opened in a scope, so the back button (or the
+   * back gesture on mobile) closes the top modal instead of leaving the page
+   */
+  history?: boolean | ScopeOptions;
+  /**
+   * Queue every push, a modal only opens once the modals of its scope have closed
+   * @default false
+   */
+  queue?: boolean;
+  /**
+   * Present overlapping modals as a stack: only the top modal shows its overlay and the
+   * ones below get `data-stacked`, see `useModalStacking`
+   * @default false
+   */
+  stacked?: boolean;
+  /**
+   * Replace the rendering of `confirm`, `alert` and `prompt`
+   * @default { Wrapper: AlertDialog.Root, Component: AlertDialogModal }
+   */
+  dialogs?: {
+    /** @default the `Wrapper` passed to `createPushModal` */
+    Wrapper?: ModalWrapper;
+    Component: React.ComponentType<DialogProps>;
+  };
+  /**
+   * Wrapper of the modals that don't have one, shorthand entries included
+   * @default Dialog.Root
+   */
+  Wrapper?: ModalWrapper;
+  /** Nested wrapper of the modals using the default `Wrapper`, when it is a drawer */
+  NestedWrapper?: ModalWrapper;
+  /** Props passed to every wrapper, `{ direction: 'bottom' }` for drawers */
+  wrapperProps?: WrapperProps;
+  /**
+   * Shown while a lazy component loads, a skeleton content for example
+   * @default null
+   */
+  fallback?: React.ReactNode;
+  /**
+   * Rendered in place of a modal component that throws, inside its wrapper.
+   * Without it a modal that throws is closed with the `error` reason
+   */
+  errorFallback?: React.ComponentType<ModalErrorFallbackProps>;
+  /** Called when a modal component throws, to report the error */
+  onError?: (error: unknown, modal: { id: string; name: keyof T; props: unknown }) => void;
+  /**
+   * Max time in milliseconds to wait for the enter/exit animation of a modal to finish,
+   * closed modals are unmounted when their exit animation ends or after this timeout
+   * @default 1000
+   */
+  animationTimeout?: number;
+}
+
+/**
+ * Value a `pushModalAsync` promise resolves with when the modal was closed
+ * without a result (escape key, overlay click, `popModal`, `popAllModals`...)
+ */
+export const DISMISSED = Symbol('swapmodal.dismissed');
+export type Dismissed = typeof DISMISSED;
+
+/**
+ * Why a modal is being closed
+ * - `escape` - escape key
+ * - `outside` - click outside of the content (overlay)
+ * - `close-button` - a close button inside the content
+ * - `dismiss` - closed by the wrapper for any other reason
+ * - `pop` - `popModal()`, a handle or `useModal().close()`
+ * - `replace` - replaced by `replaceWithModal()`
+ * - `popAll` - `popAllModals()`
+ * - `resolve` - closed with a result through `resolve(value)`
+ * - `navigation` - the URL changed (back/forward, router navigation)
+ * - `error` - the component threw and there is no `errorFallback`
+ */
+export type CloseReason =
+  | 'escape'
+  | 'outside'
+  | 'close-button'
+  | 'dismiss'
+  | 'pop'
+  | 'replace'
+  | 'popAll'
+  | 'resolve'
+  | 'navigation'
+  | 'error';
+
+/** Return `false` (or a promise resolving to `false`) to keep the modal open */
+export type BeforeCloseGuard = (reason: CloseReason) => boolean | void | Promise<boolean | void>;
+
+const DEFAULT_SCOPE = 'default';
+
+// `useSyncExternalStore` is only available from React 18
+const useSyncExternalStore: typeof React.useSyncExternalStore =
+  React.useSyncExternalStore ??
+  ((subscribe, getSnapshot) => {
+    const [value, setValue] = useState(getSnapshot);
+    useEffect(() => {
+      // Pick up changes made between the render and the subscription
+      setValue(getSnapshot);
+      return subscribe(() => setValue(getSnapshot));
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [subscribe]);
+    return value;
+  });
+
+export type ScopeOptions = {
+  /**
+   * Stack to target, every `ModalProvider` renders a single scope
+   * @default 'default'
+   */
+  scope?: string;
+};
+
+export type CloseOptions = {
+  /** Skip the `beforeClose` guards */
+  force?: boolean;
+};
+
+/** New props merged into a modal, or a function of the current props returning them */
+export type PropsUpdate<P> = Partial<P> | ((prev: P) => Partial<P>);
+
+/** Returned by `pushModal` and `replaceWithModal` to control the pushed instance */
+export interface ModalHandle<P> {
+  id: string;
+  /** Close this instance, resolves to `false` when a guard kept it open */
+  close: (options?: CloseOptions) => boolean | Promise<boolean>;
+  /** Merge new props into this instance without remounting it */
+  update: (props: PropsUpdate<P>) => void;
+  isOpen: () => boolean;
+}
+
+/** A push waiting for its scope to be empty, returned by `getModalQueue` */
+export interface QueuedModal<K = string> {
+  readonly id: string;
+  readonly name: K;
+  readonly props: Record<string, unknown>;
+  readonly scope: string;
+  readonly priority: number;
+}
+
+/** A modal of the stack, returned by `getModalStack` and `useModalStack` */
+export interface ModalStackItem<K = string> {
+  readonly id: string;
+  readonly name: K;
+  readonly props: Record<string, unknown>;
+  /** `false` while the exit animation runs */
+  readonly open: boolean;
+  readonly scope: string;
+  /** Why the modal is closing, set while `open` is `false` */
+  readonly reason?: CloseReason;
+}
+
+/** A modal of the stack with what it needs to render, returned by `useModalItems` */
+export interface ModalRenderItem<K = string> {
+  /** Identifier of the instance */
+  id: string;
+  /** Key to render the item with, changes when the item has to be mounted again */
+  renderKey: string;
+  name: K;
+  props: Record<string, unknown>;
+  /** `false` while the modal is animating out */
+  open: boolean;
+  scope: string;
+  /** Why the modal is closing */
+  reason?: CloseReason;
+  /** Position among the open modals, closing modals keep the slot they had */
+  index: number;
+  isTop: boolean;
+  /** Open modals rendered above this one, `0` for the top modal */
+  depth: number;
+  /** Drawer this one is nested in, render the item inside the wrapper of that item */
+  parentId?: string;
+  /** Wrapper of the modal, the default `Wrapper` when the definition has none */
+  Wrapper: ModalWrapper;
+  /** Props to pass to the wrapper besides `open` and `onOpenChange` */
+  wrapperProps: WrapperProps;
+  Component: React.ComponentType<any>;
+  /** Max time to wait for the enter/exit animation */
+  animationTimeout: number;
+  /**
+   * The component with its props, rendered with what `useModal` needs. `null` for a drawer
+   * that closed before the drawers nested in it, only its wrapper stays
+   */
+  children: React.ReactNode;
+  /** Pass to the wrapper, closing runs the guards and reports the close reason */
+  onOpenChange: (open?: boolean) => void;
+  /** Ask to close the modal, resolves to `false` when a guard kept it open */
+  close: (options?: CloseOptions) => boolean | Promise<boolean>;
+  /** Call once the enter animation has finished, emits `opened` */
+  onEntered: () => void;
+  /** Call once the exit animation has finished, removes the item from the stack */
+  onExited: () => void;
 }
 
-export function createPushModal<T>({ modals }: CreatePushModalOptions<T>) {
-  type Modals = typeof modals;
+export interface ModalErrorFallbackProps {
+  error: unknown;
+  /** Mount the component again */
+  retry: () => void;
+  /** Close the modal, skipping its guards */
+  close: () => void;
+}
+
+interface ModalErrorBoundaryProps {
+  fallback: React.ComponentType<ModalErrorFallbackProps> | undefined;
+  onError: (error: unknown) => void;
+  close: () => void;
+  children: React.ReactNode;
+}
+
+// Keeps an error thrown by a modal from unmounting the rest of the app
+class ModalErrorBoundary extends React.Component<
+  ModalErrorBoundaryProps,
+  { failed: boolean; error: unknown; attempt: number }
+> {
+  state = { failed: false, error: undefined as unknown, attempt: 0 };
+
+  static getDerivedStateFromError(error: unknown) {
+    return { failed: true, error };
+  }
+
+  componentDidCatch(error: unknown) {
+    this.props.onError(error);
+    if (!this.props.fallback) {
+      this.props.close();
+    }
+  }
+
+  retry = () => {
+    this.setState(({ attempt }) => ({ failed: false, error: undefined, attempt: attempt + 1 }));
+  };
+
+  render() {
+    const { fallback: Fallback, close, children } = this.props;
+    if (this.state.failed) {
+      return Fallback ? (
+        <Fallback error={this.state.error} retry={this.retry} close={close} />
+      ) : null;
+    }
+    // A new key mounts the children again on retry
+    return <React.Fragment key={this.state.attempt}>{children}</React.Fragment>;
+  }
+}
+
+// Renders the overlay handed by the content (`useModalOverlay`) outside of the steps, so moving
+// to another step keeps it. Its container is added before the portal of the content, below it
+function ModalOverlaySlot({ children }: { children: React.ReactNode }) {
+  const [overlay, setOverlay] = useState<React.ReactNode>(null);
+  const [container] = useState(() =>
+    typeof document === 'undefined' ? null : document.createElement('div')
+  );
+
+  useLayoutEffect(() => {
+    if (!container) {
+      return undefined;
+    }
+    document.body.appendChild(container);
+    return () => container.remove();
+  }, [container]);
+
+  return (
+    <>
+      {container && overlay ? createPortal(overlay, container) : null}
+      <ModalOverlayContext.Provider value={setOverlay}>{children}</ModalOverlayContext.Provider>
+    </>
+  );
+}
+
+/**
+ * What `pushModal` does when the modal is already open in the scope
+ * - `allow-multiple` - open another instance
+ * - `unique` - keep the open instance, the push is ignored
+ * - `replace-existing` - close the open instance and open the new one
+ * - `bring-to-front` - move the open instance to the top, with the new props merged in. It is
+ *   mounted again, its local state is reset
+ */
+export type DedupePolicy = 'allow-multiple' | 'unique' | 'replace-existing' | 'bring-to-front';
+
+export type DedupeOptions<P> =
+  | DedupePolicy
+  | {
+      policy: DedupePolicy;
+      /** Only instances with the same key are duplicates, `(props) => props.id` */
+      key?: (props: P) => unknown;
+    };
+
+export function createPushModal<
+  T,
+  // The exact definitions, to infer the props of each wrapper
+  M extends CreatePushModalOptions<T>['modals'] = CreatePushModalOptions<T>['modals'],
+>({
+  modals,
+  animationTimeout = 1000,
+  Wrapper: DefaultWrapper = Dialog.Root as ModalWrapper,
+  NestedWrapper: DefaultNestedWrapper,
+  wrapperProps: defaultWrapperProps,
+  fallback: defaultFallback = null,
+  errorFallback,
+  onError,
+  url,
+  history: historyOptions,
+  queue: queueAll = false,
+  stacked = false,
+  dialogs = { Wrapper: AlertDialog.Root as ModalWrapper, Component: AlertDialogModal },
+}: CreatePushModalOptions<T> & { modals: M }) {
+  type Modals = CreatePushModalOptions<T>['modals'];
   type ModalKeys = keyof Modals;
 
   type EventHandlers = {
-    change: { name: ModalKeys; open: boolean; props: Record<string, unknown> };
-    push: {
+    change: {
+      key: string;
       name: ModalKeys;
+      open: boolean;
       props: Record<string, unknown>;
+      // Only set when closing
+      reason?: CloseReason;
     };
-    replace: {
-      name: ModalKeys;
-      props: Record<string, unknown>;
-    };
-    pop: { name?: ModalKeys };
-    popAll: undefined;
+    updated: { key: string; name: ModalKeys; props: Record<string, unknown> };
+    beforeOpen: LifecycleEvent;
+    opened: LifecycleEvent;
+    beforeClose: LifecycleEvent;
+    unmounted: LifecycleEvent;
   };
 
+  type LifecycleEvent = {
+    key: string;
+    name: ModalKeys;
+    props: Record<string, unknown>;
+    // Only set for `beforeClose` and `unmounted`
+    reason?: CloseReason;
+  };
+
+  interface Step {
+    name: ModalKeys;
+    props: Record<string, unknown>;
+  }
+
   interface StateItem {
     key: string;
+    // Current step, the first one unless `next` was called
     name: ModalKeys;
     props: Record<string, unknown>;
     open: boolean;
-    closedAt?: number;
+    scope: string;
+    reason?: CloseReason;
+    // Every step of the slot once `next` was called, the current one might be outdated
+    steps?: Step[];
+    step?: number;
+    // Incremented to mount the item again
+    mount?: number;
+    // Passed to the wrapper of this instance only
+    wrapperProps?: WrapperProps;
+    // Drawer this item is rendered in, set when pushed right above it
+    parent?: string;
+    // Closed and animated out, only kept for the drawers nested in it
+    exited?: boolean;
+    // Where the focus goes back once unmounted, the next links are used when the item
+    // holding the element has closed too
+    returnFocus?: FocusLink[];
   }
 
-  const filterGarbage = (item: StateItem): boolean => {
-    if (item.open || !item.closedAt) {
-      return true;
+  interface FocusLink {
+    target: Element | string | false | null;
+    // Open item containing the target, if any
+    owner?: string;
+  }
+
+  // `confirm`, `alert` and `prompt` are pushed as a modal under a reserved name
+  const DIALOG = 'swapmodal:dialog' as ModalKeys;
+  const definitions = { ...modals, [DIALOG]: dialogs } as Modals;
+
+  const emitter = mitt<EventHandlers>();
+
+  // The stack lives outside of React so it can be inspected (guards, handles) before rendering
+  let stack: StateItem[] = [];
+  const listeners = new Set<() => void>();
+
+  const setStack = (items: StateItem[]) => {
+    stack = items;
+    listeners.forEach((listener) => listener());
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  interface ModalContextValue {
+    key: string;
+    index: number;
+    open: boolean;
+    isTop: boolean;
+    /** Index of the current step */
+    step: number;
+    /** Number of steps, including the ones after the current step */
+    stepCount: number;
+  }
+
+  const ModalContext = createContext<ModalContextValue | null>(null);
+
+  let idCounter = 0;
+  const createId = () => `modal-${++idCounter}`;
+
+  const findOpen = (key: string) => stack.find((item) => item.key === key && item.open);
+
+  // The first step renders the wrapper for the whole flow
+  const getWrapperName = (item: Pick<StateItem, 'name' | 'steps'>) =>
+    item.steps?.[0]?.name ?? item.name;
+
+  // Only drawers have a nested wrapper
+  const getNestedWrapper = (name: ModalKeys) => {
+    const modal = definitions[name];
+    if ('NestedWrapper' in modal && modal.NestedWrapper) {
+      return modal.NestedWrapper;
     }
-    return Date.now() - item.closedAt < 300;
+    return 'Wrapper' in modal && modal.Wrapper ? undefined : DefaultNestedWrapper;
   };
 
-  const emitter = mitt<EventHandlers>();
+  // A drawer opening above `items` is nested in the drawer on top of them
+  const findNestParent = (name: ModalKeys, scope: string, items: StateItem[]) => {
+    const below = items.findLast((item) => item.open && item.scope === scope);
+    return below && getNestedWrapper(name) && getNestedWrapper(getWrapperName(below))
+      ? below.key
+      : undefined;
+  };
 
-  function ModalProvider() {
-    const [state, setState] = useState<StateItem[]>([]);
+  // One per instance, so the `resolve` prop keeps its identity between renders
+  const resolveCallbacks = new Map<string, (value?: unknown) => void>();
 
-    // Run this to ensure we remove closed modals from the state
-    // Otherwise the unmount in useEffect will not be triggered until the next modal is opened
-    useEffect(() => {
-      const hasClosedModals = state.some((item) => typeof item.closedAt === 'number');
-      let timer: NodeJS.Timeout | undefined;
-      if (hasClosedModals) {
-        timer = setInterval(() => {
-          setState((p) => [...p.filter(filterGarbage)]);
-        }, 100);
-      } else {
-        clearInterval(timer);
-      }
+  // Pending `pushModalAsync` promises, keyed by the modal's state key. A deduped push
+  // waits for the instance already open
+  const pending = new Map<string, ((value: unknown) => void)[]>();
 
-      return () => {
-        clearInterval(timer);
-      };
-    }, [state]);
+  const addWaiter = (key: string, resolve: (value: unknown) => void) => {
+    pending.set(key, [...(pending.get(key) ?? []), resolve]);
+  };
 
-    useEffect(() => {
-      const pushHandler: Handler<EventHandlers['push']> = ({ name, props }) => {
-        emitter.emit('change', { name, open: true, props });
-        setState((p) =>
-          [
-            ...p,
-            {
-              key: Math.random().toString(),
-              name,
-              props,
-              open: true,
-            },
-          ].filter(filterGarbage)
+  const settle = (key: string, value: unknown) => {
+    const resolves = pending.get(key);
+    if (resolves) {
+      pending.delete(key);
+      resolves.forEach((resolve) => resolve(value));
+    }
+  };
+
+  // `onClose` callbacks passed to a push, keyed by the modal's state key
+  const closeCallbacks = new Map<string, ((reason: CloseReason) => void)[]>();
+
+  const addCloseCallback = (key: string, onClose: ((reason: CloseReason) => void) | undefined) => {
+    if (onClose) {
+      closeCallbacks.set(key, [...(closeCallbacks.get(key) ?? []), onClose]);
+    }
+  };
+
+  emitter.on('change', ({ key, open, reason }) => {
+    // Any close that did not go through `resolve` counts as a dismissal
+    if (!open) {
+      settle(key, DISMISSED);
+      const callbacks = closeCallbacks.get(key);
+      closeCallbacks.delete(key);
+      callbacks?.forEach((callback) => callback(reason!));
+    }
+  });
+
+  // Guards registered with `useBeforeClose`, keyed by the modal's state key
+  const guards = new Map<string, Set<BeforeCloseGuard>>();
+  // Keys waiting for an async guard, further close requests are ignored meanwhile
+  const closing = new Set<string>();
+
+  const runGuards = (
+    checks: (() => ReturnType<BeforeCloseGuard>)[]
+  ): boolean | Promise<boolean> => {
+    for (let i = 0; i < checks.length; i++) {
+      let result: ReturnType<BeforeCloseGuard>;
+      try {
+        result = checks[i]!();
+      } catch {
+        // A guard that throws keeps the modal open, like a rejected one
+        return false;
+      }
+      if (result instanceof Promise) {
+        return result.then(
+          (value) => value !== false && runGuards(checks.slice(i + 1)),
+          () => false
         );
-      };
-      const replaceHandler: Handler<EventHandlers['replace']> = ({ name, props }) => {
-        setState((p) => {
-          // find last item to replace
-          const last = p.findLast((item) => item.open);
-          if (last) {
-            // if found emit close event
-            emitter.emit('change', { name: last.name, open: false, props: last.props });
-          }
-          emitter.emit('change', { name, open: true, props });
-
-          return [
-            // 1) close last item 2) filter garbage 3) add new item
-            ...p
-              .map((item) => {
-                if (item.key === last?.key) {
-                  return { ...item, open: false, closedAt: Date.now() };
-                }
-                return item;
-              })
-              .filter(filterGarbage),
-            {
-              key: Math.random().toString(),
-              name,
-              props,
-              open: true,
-            },
-          ];
+      }
+      if (result === false) {
+        return false;
+      }
+    }
+    return true;
+  };
+
+  /**
+   * Run the guards of `item` and call `fn` once they all allow closing,
+   * synchronously when no guard returns a promise
+   */
+  const whenAllowed = (
+    item: StateItem,
+    reason: CloseReason,
+    force: boolean | undefined,
+    fn: () => void
+  ): boolean | Promise<boolean> => {
+    if (closing.has(item.key)) {
+      return false;
+    }
+    const modal = definitions[item.name];
+    const definitionGuard = 'beforeClose' in modal ? modal.beforeClose : undefined;
+    const allowed = force
+      ? true
+      : runGuards([
+          ...(definitionGuard ? [() => definitionGuard(reason, item.props as any)] : []),
+          ...Array.from(guards.get(item.key) ?? [], (guard) => () => guard(reason)),
+        ]);
+
+    if (allowed instanceof Promise) {
+      closing.add(item.key);
+      return allowed.then((ok) => {
+        closing.delete(item.key);
+        // The item might have been closed while the guard was pending
+        if (ok && findOpen(item.key)) {
+          fn();
+        }
+        return ok;
+      });
+    }
+    if (allowed) {
+      fn();
+    }
+    return allowed;
+  };
+
+  // Radix and vaul only report `onOpenChange(false)`, the content (`useModalDismiss`) and
+  // the close controls report why right before. Forgotten once the event is handled
+  let dismissal: { key?: string; reason: CloseReason } | undefined;
+
+  const reportDismissal = (reason: CloseReason, key?: string) => {
+    const current = { key, reason };
+    dismissal = current;
+    setTimeout(() => {
+      if (dismissal === current) {
+        dismissal = undefined;
+      }
+    });
+  };
+
+  // `Dialog.Close` only renders a button, the close controls are told apart by their slot
+  const trackCloseControl = (event: MouseEvent) => {
+    if (
+      event.target instanceof Element &&
+      event.target.closest('[data-slot*="close"], [data-slot*="cancel"]')
+    ) {
+      reportDismissal('close-button');
+    }
+  };
+
+  const dismissReason = (key: string): CloseReason => {
+    const current = dismissal;
+    dismissal = undefined;
+    return current && (!current.key || current.key === key) ? current.reason : 'dismiss';
+  };
+
+  const closeItem = (key: string, reason: CloseReason) => {
+    const match = findOpen(key);
+    if (!match) {
+      return;
+    }
+    emitter.emit('beforeClose', { key, name: match.name, props: match.props, reason });
+    setStack(stack.map((item) => (item.key !== key ? item : { ...item, open: false, reason })));
+    emitter.emit('change', {
+      key: match.key,
+      name: match.name,
+      open: false,
+      props: match.props,
+      reason,
+    });
+  };
+
+  // Called once the exit animation of a closed item has finished. A drawer keeps its wrapper
+  // while drawers are nested in it, unmounting it would mount them again on their own
+  const removeItem = (key: string) => {
+    const match = stack.find((item) => item.key === key && !item.open && !item.exited);
+    if (!match) {
+      return;
+    }
+    resolveCallbacks.delete(key);
+    if (stack.some((item) => item.parent === key)) {
+      setStack(stack.map((item) => (item !== match ? item : { ...item, exited: true })));
+      return;
+    }
+    let items = stack.filter((item) => item !== match);
+    // The drawers it was nested in might only be waiting for it
+    let parent = items.find((item) => item.key === match.parent);
+    while (parent?.exited && !items.some((item) => item.parent === parent!.key)) {
+      const removed = parent;
+      items = items.filter((item) => item !== removed);
+      parent = items.find((item) => item.key === removed.parent);
+    }
+    setStack(items);
+  };
+
+  const requestClose = (key: string, reason: CloseReason, force?: boolean) => {
+    const match = findOpen(key);
+    return match ? whenAllowed(match, reason, force, () => closeItem(key, reason)) : false;
+  };
+
+  const captureFocus = (
+    returnFocus: BasePushOptions['returnFocus'],
+    // The item closed for this push, its content is about to go away with the focus
+    replaced?: StateItem
+  ): FocusLink[] => {
+    if (replaced) {
+      const links = replaced.returnFocus ?? [];
+      return returnFocus === undefined ? links : [{ target: returnFocus }, ...links];
+    }
+    const below = stack.findLast((item) => item.open);
+    const links = below?.returnFocus ?? [];
+    if (returnFocus !== undefined) {
+      return [{ target: returnFocus }, ...links];
+    }
+    const active = typeof document === 'undefined' ? null : document.activeElement;
+    return [{ target: active, owner: below?.key }, ...links];
+  };
+
+  // Focus the first usable element of the unmounted item, unless the focus moved on already
+  const restoreFocus = (item: StateItem) => {
+    const active = document.activeElement;
+    if (active && active !== document.body && active.isConnected) {
+      return;
+    }
+    for (const { target, owner } of item.returnFocus ?? []) {
+      if (target === false) {
+        return;
+      }
+      if (owner && !findOpen(owner)) {
+        continue;
+      }
+      const element =
+        typeof target === 'string' ? document.querySelector<HTMLElement>(target) : target;
+      if (element?.isConnected && element !== document.body) {
+        (element as HTMLElement).focus({ preventScroll: true });
+        return;
+      }
+    }
+  };
+
+  const pushItem = (
+    key: string,
+    name: ModalKeys,
+    props: Record<string, unknown>,
+    scope = DEFAULT_SCOPE,
+    options?: BasePushOptions,
+    replaced?: StateItem
+  ) => {
+    emitter.emit('beforeOpen', { key, name, props });
+    const returnFocus = captureFocus(options?.returnFocus, replaced);
+    setStack([
+      // a closing item might still hold a reused id
+      ...stack.filter((item) => item.key !== key),
+      {
+        key,
+        name,
+        props,
+        open: true,
+        scope,
+        wrapperProps: options?.wrapperProps,
+        parent: findNestParent(name, scope, stack),
+        returnFocus,
+      },
+    ]);
+    emitter.emit('change', { key, name, open: true, props });
+  };
+
+  const replaceItem = (
+    key: string,
+    name: ModalKeys,
+    props: Record<string, unknown>,
+    // Key of the item to replace, defaults to the last open item
+    target: string | undefined,
+    options: ReplaceOptions | undefined
+  ) => {
+    const scope = options?.scope ?? DEFAULT_SCOPE;
+    const last = stack.findLast(
+      (item) => item.open && (target ? item.key === target : item.scope === scope)
+    );
+    const replace = () => {
+      if (last) {
+        emitter.emit('beforeClose', {
+          key: last.key,
+          name: last.name,
+          props: last.props,
+          reason: 'replace',
         });
-      };
+      }
+      emitter.emit('beforeOpen', { key, name, props });
+      const returnFocus = captureFocus(options?.returnFocus, last);
+      const below = last ? stack.slice(0, stack.indexOf(last)) : stack;
 
-      const popHandler: Handler<EventHandlers['pop']> = ({ name }) => {
-        setState((items) => {
-          // Find last index
-          const index =
-            name === undefined
-              ? // Pick last item if no name is provided
-                items.length - 1
-              : items.findLastIndex((item) => item.name === name && item.open);
-          const match = items[index];
-          if (match) {
-            emitter.emit('change', {
-              name: match.name,
-              open: false,
-              props: match.props,
-            });
+      // 1) close last item 2) add new item, in place of a targeted item
+      const items = stack
+        .map((item) => {
+          if (item.key === last?.key) {
+            return { ...item, open: false, reason: 'replace' as const };
           }
-          return items.map((item) =>
-            match?.key !== item.key ? item : { ...item, open: false, closedAt: Date.now() }
-          );
+          return item;
+        })
+        .filter((item) => item.key !== key);
+      const index = target ? items.findIndex((item) => item.key === target) : -1;
+      items.splice(index === -1 ? items.length : index + 1, 0, {
+        key,
+        name,
+        props,
+        open: true,
+        scope: last?.scope ?? scope,
+        wrapperProps: options?.wrapperProps,
+        parent: findNestParent(name, last?.scope ?? scope, below),
+        returnFocus,
+      });
+      addCloseCallback(key, options?.onClose);
+      setStack(items);
+
+      if (last) {
+        // if found emit close event
+        emitter.emit('change', {
+          key: last.key,
+          name: last.name,
+          open: false,
+          props: last.props,
+          reason: 'replace',
         });
-      };
+      }
+      emitter.emit('change', { key, name, open: true, props });
+    };
+
+    if (!last) {
+      replace();
+      return true;
+    }
+    return whenAllowed(last, 'replace', options?.force, replace);
+  };
+
+  const updateItem = (
+    match: StateItem | undefined,
+    props: PropsUpdate<Record<string, unknown>>
+  ) => {
+    if (!match) {
+      return;
+    }
+    const nextProps = {
+      ...match.props,
+      ...(typeof props === 'function' ? props(match.props) : props),
+    };
+    // Keep the same key so the component is re-rendered in place
+    setStack(stack.map((item) => (item === match ? { ...item, props: nextProps } : item)));
+    emitter.emit('updated', { key: match.key, name: match.name, props: nextProps });
+  };
 
-      const popAllHandler: Handler<EventHandlers['popAll']> = () => {
-        setState((items) => items.map((item) => ({ ...item, open: false, closedAt: Date.now() })));
+  // Mounted again at the end of the stack: portals, focus traps and dismissable layers follow
+  // the mount order, only the props and the instance (id, handles, callbacks) are kept
+  const bringToFront = (match: StateItem, props: Record<string, unknown>) => {
+    const nextProps = { ...match.props, ...props };
+    const others = stack.filter((item) => item !== match);
+    setStack([
+      ...others,
+      {
+        ...match,
+        props: nextProps,
+        mount: (match.mount ?? 0) + 1,
+        parent: findNestParent(getWrapperName(match), match.scope, others),
+      },
+    ]);
+    emitter.emit('updated', { key: match.key, name: match.name, props: nextProps });
+  };
+
+  /**
+   * Push `key` unless the dedupe policy of the modal finds an open duplicate,
+   * returns the key of the instance shown for this push
+   */
+  const pushDeduped = (
+    key: string,
+    name: ModalKeys,
+    props: Record<string, unknown>,
+    options: PushOptions | undefined
+  ) => {
+    const scope = options?.scope ?? DEFAULT_SCOPE;
+    const modal = definitions[name];
+    const config =
+      options?.dedupe ?? ('dedupe' in modal ? modal.dedupe : undefined) ?? 'allow-multiple';
+    const {
+      policy,
+      key: getKey,
+    }: Exclude<DedupeOptions<any>, DedupePolicy> = typeof config === 'string'
+      ? { policy: config }
+      : config;
+    const existing =
+      policy === 'allow-multiple'
+        ? undefined
+        : stack.findLast(
+            (item) =>
+              item.open &&
+              item.scope === scope &&
+              item.name === name &&
+              (!getKey || Object.is(getKey(item.props as any), getKey(props as any)))
+          );
+
+    if (!existing) {
+      pushItem(key, name, props, scope, options);
+      return key;
+    }
+    if (policy === 'unique') {
+      return existing.key;
+    }
+    if (policy === 'bring-to-front') {
+      bringToFront(existing, props);
+      return existing.key;
+    }
+    const allowed = whenAllowed(existing, 'replace', false, () => {
+      closeItem(existing.key, 'replace');
+      pushItem(key, name, props, scope, options, existing);
+    });
+    if (allowed instanceof Promise) {
+      allowed.then((ok) => !ok && settle(key, DISMISSED));
+      return key;
+    }
+    return allowed ? key : existing.key;
+  };
+
+  interface QueueItem {
+    key: string;
+    name: ModalKeys;
+    props: Record<string, unknown>;
+    scope: string;
+    priority: number;
+    options: PushOptions | undefined;
+  }
+
+  // Modals waiting for their scope to be empty, in the order they will open
+  let queue: QueueItem[] = [];
+
+  const isScopeBusy = (scope: string) => stack.some((item) => item.scope === scope);
+
+  const enqueue = (item: QueueItem) => {
+    // Higher priorities first, pushes with the same priority keep their order
+    const index = queue.findIndex((queued) => queued.priority < item.priority);
+    queue = [...queue];
+    queue.splice(index === -1 ? queue.length : index, 0, item);
+  };
+
+  const dequeue = (key: string) => {
+    const match = queue.find((item) => item.key === key);
+    if (!match) {
+      return false;
+    }
+    queue = queue.filter((item) => item !== match);
+    settle(key, DISMISSED);
+    closeCallbacks.delete(key);
+    return true;
+  };
+
+  // A queued push opens with the new props merged in
+  const updateQueued = (key: string, props: PropsUpdate<Record<string, unknown>>) => {
+    queue = queue.map((item) =>
+      item.key === key
+        ? {
+            ...item,
+            props: { ...item.props, ...(typeof props === 'function' ? props(item.props) : props) },
+          }
+        : item
+    );
+  };
+
+  // Open the next queued modal of every scope that has no modal left, closing ones included
+  const flushQueue = () => {
+    const next = queue.find((item) => !isScopeBusy(item.scope));
+    if (!next) {
+      return;
+    }
+    queue = queue.filter((item) => item !== next);
+    const shown = pushDeduped(next.key, next.name, next.props, next.options);
+    if (shown !== next.key) {
+      // Deduped, the push waits for the instance already open
+      pending.get(next.key)?.forEach((resolve) => addWaiter(shown, resolve));
+      pending.delete(next.key);
+      closeCallbacks.get(next.key)?.forEach((callback) => addCloseCallback(shown, callback));
+      closeCallbacks.delete(next.key);
+    }
+    // Another scope might be free too
+    flushQueue();
+  };
+
+  subscribe(flushQueue);
+
+  /**
+   * Push now or queue the push when it should wait for the scope to be empty,
+   * returns the key of the instance shown for this push
+   */
+  const pushOrQueue = (
+    key: string,
+    name: ModalKeys,
+    props: Record<string, unknown>,
+    options: PushOptions | undefined
+  ) => {
+    const scope = options?.scope ?? DEFAULT_SCOPE;
+    if (
+      (options?.queue ?? queueAll) &&
+      (isScopeBusy(scope) || queue.some((item) => item.scope === scope))
+    ) {
+      enqueue({ key, name, props, scope, priority: options?.priority ?? 0, options });
+      return key;
+    }
+    return pushDeduped(key, name, props, options);
+  };
+
+  /**
+   * Move the slot `key` by `offset` steps, `next` replaces the steps after the current one.
+   * The slot keeps its key so the wrapper stays open
+   */
+  const moveStep = (key: string, offset: number, next?: Step) => {
+    const match = findOpen(key);
+    if (!match) {
+      return false;
+    }
+    const current = match.step ?? 0;
+    const steps = [...(match.steps ?? [])];
+    // Keep the latest props of the current step
+    steps[current] = { name: match.name, props: match.props };
+    const step = current + offset;
+    if (next) {
+      steps.splice(step, steps.length - step, next);
+    }
+    const target = steps[step];
+    if (step < 0 || !target) {
+      return false;
+    }
+    setStack(
+      stack.map((item) =>
+        item === match ? { ...item, name: target.name, props: target.props, steps, step } : item
+      )
+    );
+    return true;
+  };
+
+  // Only the enter/exit animations of the modal itself are tracked (Radix and vaul set `data-state`)
+  const isTrackedAnimation = (event: React.SyntheticEvent) =>
+    event.target instanceof Element && event.target.hasAttribute('data-state');
+
+  const hasRunningTransitions = () =>
+    typeof document.getAnimations === 'function' &&
+    document
+      .getAnimations()
+      .some((animation) => animation.playState === 'running' && 'transitionProperty' in animation);
+
+  /**
+   * Calls `onEnd` once the animations started after `phase` changed have finished,
+   * after a frame when nothing animates, or after `timeout` at the latest
+   */
+  const useAnimationPhase = (phase: unknown, onEnd: () => void, timeout: number) => {
+    const running = useRef(0);
+    const finish = useRef<() => void>(() => {});
+    const onEndRef = useRef(onEnd);
+    onEndRef.current = onEnd;
+
+    useEffect(() => {
+      let done = false;
+      running.current = 0;
+      finish.current = () => {
+        if (!done) {
+          done = true;
+          onEndRef.current();
+        }
       };
-      emitter.on('push', pushHandler);
-      emitter.on('replace', replaceHandler);
-      emitter.on('pop', popHandler);
-      emitter.on('popAll', popAllHandler);
+      const idleTimer = setTimeout(() => {
+        if (running.current === 0 && !hasRunningTransitions()) {
+          finish.current();
+        }
+      }, 50);
+      const timeoutTimer = setTimeout(() => finish.current(), timeout);
       return () => {
-        emitter.off('push', pushHandler);
-        emitter.off('replace', replaceHandler);
-        emitter.off('pop', popHandler);
-        emitter.off('popAll', popAllHandler);
+        done = true;
+        clearTimeout(idleTimer);
+        clearTimeout(timeoutTimer);
       };
-    }, [state.length]);
+    }, [phase, timeout]);
+
+    return {
+      // Stopped once tracked, a nested drawer is rendered inside the item of its parent
+      onAnimationStart: (event: React.AnimationEvent) => {
+        if (isTrackedAnimation(event)) {
+          event.stopPropagation();
+          running.current++;
+        }
+      },
+      onAnimationEnd: (event: React.AnimationEvent) => {
+        if (isTrackedAnimation(event)) {
+          event.stopPropagation();
+          running.current = Math.max(0, running.current - 1);
+          if (running.current === 0) {
+            finish.current();
+          }
+        }
+      },
+      onTransitionEnd: (event: React.TransitionEvent) => {
+        if (isTrackedAnimation(event)) {
+          event.stopPropagation();
+          if (running.current === 0) {
+            finish.current();
+          }
+        }
+      },
+    };
+  };
+
+  // Renders an item with its wrapper, unmounted once its exit animation has finished
+  function ModalItem({
+    item,
+    children,
+  }: {
+    item: ModalRenderItem<ModalKeys>;
+    children?: React.ReactNode;
+  }) {
+    const { Wrapper } = item;
+    const animationHandlers = useAnimationPhase(
+      item.open,
+      () => (item.open ? item.onEntered() : item.onExited()),
+      item.animationTimeout
+    );
+
     return (
-      <>
-        {state.map((item) => {
-          const modal = modals[item.name];
-          const Component =
-            'Component' in modal ? modal.Component : (modal as React.ComponentType<unknown>);
-          const Root = 'Wrapper' in modal ? modal.Wrapper : Dialog.Root;
-
-          return (
-            <Root
-              key={item.key}
-              open={item.open}
-              onOpenChange={(isOpen) => {
-                if (!isOpen) {
-                  popModal(item.name);
-                }
+      // Catches the animation events bubbling from the portaled content
+      <div style={{ display: 'contents' }} {...animationHandlers}>
+        <Wrapper {...item.wrapperProps} open={item.open} onOpenChange={item.onOpenChange}>
+          {item.children}
+          {children}
+        </Wrapper>
+      </div>
+    );
+  }
+
+  const urlScope = url?.scope ?? DEFAULT_SCOPE;
+  let urlAdapter: ModalUrlAdapter | undefined;
+  // Value last read from or written to the URL
+  let urlValue: string | null = null;
+  let urlRestored = false;
+  let urlSyncing = false;
+
+  const getUrlSerializer = (name: ModalKeys) => {
+    const modal = definitions[name];
+    const config = 'url' in modal ? modal.url : undefined;
+    if (!config) {
+      return undefined;
+    }
+    return config === true
+      ? { serialize: (props: unknown) => props, parse: (value: unknown) => value }
+      : (config as ModalUrlSerializer<unknown>);
+  };
+
+  const getUrlItems = () =>
+    stack.flatMap((item) => {
+      const serializer = item.open && item.scope === urlScope && getUrlSerializer(item.name);
+      return serializer
+        ? [{ item, entry: JSON.stringify([item.name, serializer.serialize(item.props)]) }]
+        : [];
+    });
+
+  const parseUrl = (value: string | null) => {
+    if (!value) {
+      return [];
+    }
+    try {
+      const entries: unknown = JSON.parse(value);
+      return Array.isArray(entries)
+        ? entries.filter(
+            (entry): entry is [ModalKeys, unknown] =>
+              Array.isArray(entry) && entry[0] in modals && !!getUrlSerializer(entry[0])
+          )
+        : [];
+    } catch {
+      console.warn(`[swapmodal] Could not restore modals from the URL: ${value}`);
+      return [];
+    }
+  };
+
+  const writeUrl = () => {
+    if (!urlAdapter || !urlRestored || urlSyncing) {
+      return;
+    }
+    const items = getUrlItems();
+    const value = items.length ? `[${items.map(({ entry }) => entry).join(',')}]` : null;
+    if (value !== urlValue) {
+      urlValue = value;
+      urlAdapter.write(value);
+    }
+  };
+
+  // Make the stack match the URL, modals in common at the bottom of the stack are kept
+  const syncFromUrl = () => {
+    if (!urlAdapter) {
+      return;
+    }
+    const value = urlAdapter.read();
+    if (urlRestored && value === urlValue) {
+      return;
+    }
+    urlValue = value;
+    urlRestored = true;
+    // Back to an entry added by the history sync, `onHistoryChange` closes the modals above it
+    // and asks their guards once
+    if (
+      historyStarted &&
+      historyScope === urlScope &&
+      readHistoryDepth() < getHistoryItems().length
+    ) {
+      return;
+    }
+    const entries = parseUrl(value);
+    const current = getUrlItems();
+    let common = 0;
+    while (
+      common < current.length &&
+      common < entries.length &&
+      current[common]!.entry === JSON.stringify(entries[common])
+    ) {
+      common++;
+    }
+
+    const open = () => {
+      urlSyncing = true;
+      entries.slice(common).forEach(([name, serialized]) => {
+        let props: unknown;
+        try {
+          props = getUrlSerializer(name)!.parse(serialized);
+        } catch (error) {
+          // An outdated or tampered link, the entry is dropped
+          console.warn(
+            `[swapmodal] Could not restore the modal "${String(name)}" from the URL`,
+            error
+          );
+          return;
+        }
+        pushItem(createId(), name, (props ?? {}) as Record<string, unknown>, urlScope);
+      });
+      urlSyncing = false;
+      // Entries that could not be restored are dropped from the URL
+      writeUrl();
+    };
+    // The modals above the common ones close from the top, a guard keeping one open
+    // writes the current stack back to the URL
+    const keys = current
+      .slice(common)
+      .map(({ item }) => item.key)
+      .reverse();
+    const next = (index: number): void => {
+      if (index >= keys.length) {
+        open();
+        return;
+      }
+      urlSyncing = true;
+      const result = requestClose(keys[index]!, 'navigation');
+      urlSyncing = false;
+      if (result instanceof Promise) {
+        result.then((ok) => (ok ? next(index + 1) : writeUrl()));
+      } else if (result) {
+        next(index + 1);
+      } else {
+        writeUrl();
+      }
+    };
+    next(0);
+  };
+
+  const historyScope =
+    (typeof historyOptions === 'object' ? historyOptions.scope : undefined) ?? DEFAULT_SCOPE;
+  // Marks the history entries added by swapmodal with their depth
+  const HISTORY_DEPTH = 'swapmodalDepth';
+  let historyStarted = false;
+  // A `history.go()` is pending, the depth is only known once `popstate` fires
+  let historyTraversing = false;
+  let historyScheduled = false;
+
+  const getHistoryItems = () => stack.filter((item) => item.open && item.scope === historyScope);
+
+  const readHistoryDepth = () => {
+    const state: unknown = window.history.state;
+    const depth =
+      state && typeof state === 'object' ? (state as Record<string, unknown>)[HISTORY_DEPTH] : 0;
+    return typeof depth === 'number' ? depth : 0;
+  };
+
+  // One history entry per open modal, closing several modals at once goes back only once
+  const syncHistory = () => {
+    historyScheduled = false;
+    if (!historyStarted || historyTraversing) {
+      return;
+    }
+    const depth = readHistoryDepth();
+    const count = getHistoryItems().length;
+    for (let next = depth + 1; next <= count; next++) {
+      window.history.pushState({ ...window.history.state, [HISTORY_DEPTH]: next }, '');
+    }
+    // An entry added back for a modal kept open by its guard gets the URL of the stack
+    if (count > depth) {
+      writeUrl();
+    }
+    if (count < depth) {
+      historyTraversing = true;
+      window.history.go(count - depth);
+    }
+  };
+
+  const scheduleHistorySync = () => {
+    if (historyStarted && !historyScheduled) {
+      historyScheduled = true;
+      queueMicrotask(syncHistory);
+    }
+  };
+
+  // Back closes the modals above the entry navigated to, a guard keeping one open adds its entry back
+  const onHistoryChange = () => {
+    if (historyTraversing) {
+      historyTraversing = false;
+      syncHistory();
+      return;
+    }
+    const keys = getHistoryItems()
+      .slice(readHistoryDepth())
+      .map((item) => item.key)
+      .reverse();
+    const next = (index: number): void => {
+      if (index >= keys.length) {
+        scheduleHistorySync();
+        return;
+      }
+      const result = requestClose(keys[index]!, 'navigation');
+      if (result instanceof Promise) {
+        result.then((ok) => (ok ? next(index + 1) : scheduleHistorySync()));
+      } else if (result) {
+        next(index + 1);
+      } else {
+        scheduleHistorySync();
+      }
+    };
+    next(0);
+  };
+
+  // Called when the provider of the tracked scope mounts
+  const startHistorySync = () => {
+    if (!historyOptions || historyStarted) {
+      return undefined;
+    }
+    historyStarted = true;
+    window.addEventListener('popstate', onHistoryChange);
+    scheduleHistorySync();
+    return () => {
+      window.removeEventListener('popstate', onHistoryChange);
+      historyStarted = false;
+      historyTraversing = false;
+    };
+  };
+
+  // Entries are added right away, before `writeUrl` writes the URL of the modal to the new entry
+  if (historyOptions) {
+    subscribe(() =>
+      getHistoryItems().length > readHistoryDepth() ? syncHistory() : scheduleHistorySync()
+    );
+  }
+
+  if (url) {
+    subscribe(writeUrl);
+  }
+
+  // Called when the provider of the synced scope mounts, the URL is only touched on the client
+  const startUrlSync = () => {
+    if (!url || urlAdapter) {
+      return undefined;
+    }
+    urlAdapter = url.adapter ?? createSearchParamAdapter();
+    syncFromUrl();
+    const unsubscribe = urlAdapter.subscribe?.(syncFromUrl);
+    return () => {
+      unsubscribe?.();
+      urlAdapter = undefined;
+      urlRestored = false;
+    };
+  };
+
+  const getItemWrapperProps = (item: StateItem): WrapperProps => {
+    const modal = definitions[getWrapperName(item)];
+    return {
+      ...defaultWrapperProps,
+      ...('wrapperProps' in modal ? modal.wrapperProps : undefined),
+      ...item.wrapperProps,
+    };
+  };
+
+  interface ItemPosition {
+    index: number;
+    depth: number;
+    isTop: boolean;
+    showOverlay: boolean;
+    // Below the top modal entry, which takes the focus and the pointer
+    inert: boolean;
+    // Drawer rendered before this one, that it is nested in
+    parentId?: string;
+    // An open modal below owns the page, a drawer above it leaves the background and body alone
+    entryBelow: boolean;
+  }
+
+  const toRenderItem = (item: StateItem, position: ItemPosition): ModalRenderItem<ModalKeys> => {
+    const { index, depth, isTop, showOverlay, inert, parentId, entryBelow } = position;
+    const step = definitions[item.name];
+    const Component = 'Component' in step ? step.Component : (step as React.ComponentType<unknown>);
+    const modal = definitions[getWrapperName(item)];
+    const stepIndex = item.step ?? 0;
+    const wrapperProps = getItemWrapperProps(item);
+
+    return {
+      id: item.key,
+      renderKey: `${item.key}:${item.mount ?? 0}`,
+      name: item.name,
+      props: item.props,
+      open: item.open,
+      scope: item.scope,
+      reason: item.reason,
+      index,
+      isTop,
+      depth,
+      parentId,
+      Wrapper:
+        (parentId && getNestedWrapper(getWrapperName(item))) ||
+        (('Wrapper' in modal ? modal.Wrapper : undefined) ?? DefaultWrapper),
+      wrapperProps:
+        entryBelow && getNestedWrapper(getWrapperName(item))
+          ? { ...wrapperProps, shouldScaleBackground: false, noBodyStyles: true }
+          : wrapperProps,
+      Component,
+      animationTimeout:
+        ('animationTimeout' in modal ? modal.animationTimeout : undefined) ?? animationTimeout,
+      children: item.exited ? null : (
+        <ModalStackingContext.Provider value={{ depth, isTop, stacked, showOverlay, inert }}>
+          <ModalDismissContext.Provider value={(reason) => reportDismissal(reason, item.key)}>
+            <ModalContext.Provider
+              value={{
+                key: item.key,
+                index,
+                open: item.open,
+                isTop,
+                step: stepIndex,
+                stepCount: item.steps?.length ?? 1,
               }}
             >
-              <Suspense>
-                <Component {...(item.props as any)} />
-              </Suspense>
-            </Root>
-          );
-        })}
-      </>
+              <ModalOverlaySlot>
+                <ModalErrorBoundary
+                  fallback={
+                    ('errorFallback' in step ? step.errorFallback : undefined) ?? errorFallback
+                  }
+                  onError={(error) =>
+                    onError?.(error, { id: item.key, name: item.name, props: item.props })
+                  }
+                  close={() => requestClose(item.key, 'error', true)}
+                >
+                  <Suspense
+                    fallback={('fallback' in step ? step.fallback : undefined) ?? defaultFallback}
+                  >
+                    <Component
+                      key={stepIndex}
+                      {...(item.props as any)}
+                      resolve={resolvers(item.key)}
+                    />
+                  </Suspense>
+                </ModalErrorBoundary>
+              </ModalOverlaySlot>
+            </ModalContext.Provider>
+          </ModalDismissContext.Provider>
+        </ModalStackingContext.Provider>
+      ),
+      onOpenChange: (isOpen) => {
+        if (!isOpen) {
+          requestClose(item.key, dismissReason(item.key));
+        }
+      },
+      close: (options) => requestClose(item.key, 'pop', options?.force),
+      onEntered: () => {
+        if (findOpen(item.key)) {
+          emitter.emit('opened', { key: item.key, name: item.name, props: item.props });
+        }
+      },
+      onExited: () => removeItem(item.key),
+    };
+  };
+
+  // Number of mounted providers per scope, more than one renders every modal twice
+  const mountedScopes = new Map<string, number>();
+
+  /**
+   * Render the stack of a scope yourself, in place of the `ModalProvider`.
+   * Wrap each item's `children` with your wrapper and call `onExited` once it has animated out
+   *
+   * @example
+   * ```tsx
+   * const items = useModalItems();
+   * return items.map((item) => (
+   *   <MyDialog key={item.renderKey} open={item.open} onOpenChange={item.onOpenChange}>
+   *     {item.children}
+   *   </MyDialog>
+   * ));
+   * ```
+   */
+  const useModalItems = ({ scope = DEFAULT_SCOPE }: ScopeOptions = {}) => {
+    const select = () => stack.filter((item) => item.scope === scope);
+    const [state, setState] = useState<StateItem[]>(select);
+    const rendered = useRef<StateItem[]>([]);
+
+    useEffect(() => {
+      const count = (mountedScopes.get(scope) ?? 0) + 1;
+      mountedScopes.set(scope, count);
+      if (count > 1 && process.env.NODE_ENV !== 'production') {
+        console.warn(
+          `[swapmodal] ${count} ModalProviders (or useModalItems) are mounted for the scope "${scope}", ` +
+            'each modal will be rendered more than once. Pass a different `scope` to each provider.'
+        );
+      }
+      return () => {
+        mountedScopes.set(scope, (mountedScopes.get(scope) ?? 1) - 1);
+      };
+    }, [scope]);
+
+    useEffect(() => {
+      if (scope === urlScope) {
+        return startUrlSync();
+      }
+    }, [scope]);
+
+    useEffect(() => {
+      if (scope === historyScope) {
+        return startHistorySync();
+      }
+    }, [scope]);
+
+    useEffect(() => {
+      // Capture phase so the control is known before Radix handles the click
+      document.addEventListener('click', trackCloseControl, true);
+      return () => {
+        document.removeEventListener('click', trackCloseControl, true);
+      };
+    }, []);
+
+    useEffect(() => {
+      // Pick up anything pushed between the render and the subscription
+      setState(select);
+      return subscribe(() => setState(select));
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [scope]);
+
+    // Items missing since the last commit have been unmounted
+    useEffect(() => {
+      const previous = rendered.current;
+      rendered.current = state;
+      previous
+        .filter((item) => !state.some((next) => next.key === item.key))
+        .forEach((item) => {
+          restoreFocus(item);
+          emitter.emit('unmounted', {
+            key: item.key,
+            name: item.name,
+            props: item.props,
+            reason: item.reason,
+          });
+        });
+    }, [state]);
+
+    const top = state.findLast((item) => item.open);
+    // A non-modal sheet on top has no overlay, the one below stays visible
+    const overlay = state.findLast(
+      (item) => item.open && getItemWrapperProps(item).modal !== false
     );
+    const overlayIndex = overlay ? state.indexOf(overlay) : -1;
+    let openCount = 0;
+    let openAbove = state.filter((item) => item.open).length;
+
+    return state.map((item, position) => {
+      const index = openCount;
+      if (item.open) {
+        openCount++;
+        openAbove--;
+      }
+      return toRenderItem(item, {
+        index,
+        depth: openAbove,
+        isTop: item === top,
+        showOverlay: !stacked || item === overlay,
+        inert: item.open && position < overlayIndex,
+        // Its drawer might be gone, or rendered after it once brought to the front
+        parentId: state.slice(0, position).some((below) => below.key === item.parent)
+          ? item.parent
+          : undefined,
+        entryBelow: index > 0,
+      });
+    });
+  };
+
+  function ModalProvider({ scope = DEFAULT_SCOPE }: ScopeOptions) {
+    const items = useModalItems({ scope });
+    // Nested drawers are rendered inside the drawer they are nested in
+    const renderItem = (item: ModalRenderItem<ModalKeys>): React.ReactNode => (
+      <ModalItem key={item.renderKey} item={item}>
+        {items.filter((nested) => nested.parentId === item.id).map(renderItem)}
+      </ModalItem>
+    );
+
+    return <>{items.filter((item) => !item.parentId).map(renderItem)}</>;
   }
 
   type Prettify<T> = {
@@ -195,67 +1606,512 @@ export function createPushModal<T>({ modals }: CreatePushModalOptions<T>) {
     | { Component: React.ComponentType<infer P> }
     ? P
     : never;
+  // `resolve` is injected by the provider, so it is never passed to `pushModal`
+  type GetPushProps<T> = Omit<GetComponentProps<T>, 'resolve'>;
+  type GetModalResult<T> =
+    GetComponentProps<T> extends { resolve?: (value: infer R) => void } ? R : undefined;
   type IsObject<T> =
     Prettify<T> extends Record<string | number | symbol, unknown> ? Prettify<T> : never;
   type HasKeys<T> = keyof T extends never ? never : T;
 
-  const pushModal = <T extends StateItem['name'], B extends Prettify<GetComponentProps<Modals[T]>>>(
-    name: T,
-    ...args: HasKeys<IsObject<B>> extends never
+  // Props of the wrapper of a modal, besides the ones set by the provider
+  type GetWrapperProps<D> = D extends { Wrapper: React.ComponentType<infer W> }
+    ? Omit<W, 'open' | 'onOpenChange' | 'children' | 'defaultOpen'>
+    : WrapperProps;
+
+  type BasePushOptions<W = WrapperProps> = ScopeOptions & {
+    /** Identifier of the instance, generated when omitted */
+    id?: string;
+    /** Props passed to the wrapper of this instance, merged over the default ones */
+    wrapperProps?: Partial<W>;
+    /** Called when this instance closes, with the reason */
+    onClose?: (reason: CloseReason) => void;
+    /**
+     * Element, or selector, focused once this instance has unmounted. `false` leaves the focus
+     * where it is
+     * @default the element focused when pushed, the one of the replaced modal for a replace
+     */
+    returnFocus?: HTMLElement | string | false;
+  };
+  type PushOptions<P = any, W = WrapperProps> = BasePushOptions<W> & {
+    /** Overrides the `dedupe` policy of the modal for this push */
+    dedupe?: DedupeOptions<P>;
+    /**
+     * Wait for the modals of the scope to close before opening
+     * @default the `queue` passed to `createPushModal`
+     */
+    queue?: boolean;
+    /**
+     * Queued modals with a higher priority open first
+     * @default 0
+     */
+    priority?: number;
+  };
+  type ReplaceOptions<W = WrapperProps> = BasePushOptions<W> & CloseOptions;
+  type PushArgs<B, O = PushOptions> =
+    HasKeys<IsObject<B>> extends never
       ? // No props provided
-        []
+        [props?: B, options?: O]
       : // Props provided
-        [props: B]
+        [props: B, options?: O];
+
+  type ModalId = string & Record<never, never>;
+
+  const createHandle = <P,>(id: string): ModalHandle<P> => ({
+    id,
+    // A queued instance is removed from the queue
+    close: (options) => dequeue(id) || requestClose(id, 'pop', options?.force),
+    update: (props) => {
+      const match = findOpen(id);
+      return match
+        ? updateItem(match, props as PropsUpdate<any>)
+        : updateQueued(id, props as PropsUpdate<any>);
+    },
+    isOpen: () => !!findOpen(id),
+  });
+
+  // An open id wins over a modal name, without either pick the last open item of the scope
+  const matchNameOrId = (nameOrId?: StateItem['name'] | ModalId, scope = DEFAULT_SCOPE) =>
+    (typeof nameOrId === 'string' ? findOpen(nameOrId) : undefined) ??
+    stack.findLast(
+      (item) =>
+        item.open && item.scope === scope && (nameOrId === undefined || item.name === nameOrId)
+    );
+
+  // An id already open or waiting in the queue keeps its instance
+  const isPushed = (key: string) => {
+    if (findOpen(key)) {
+      console.warn(`[swapmodal] A modal with id "${key}" is already open`);
+      return true;
+    }
+    if (queue.some((item) => item.key === key)) {
+      console.warn(`[swapmodal] A modal with id "${key}" is already queued`);
+      return true;
+    }
+    return false;
+  };
+
+  const pushModal = <T extends StateItem['name'], B extends Prettify<GetPushProps<Modals[T]>>>(
+    name: T,
+    ...args: PushArgs<B, PushOptions<B, GetWrapperProps<M[T]>>>
+  ): ModalHandle<B> => {
+    const [props, options] = args;
+    const id = options?.id ?? createId();
+    if (isPushed(id)) {
+      return createHandle(id);
+    }
+    const shown = pushOrQueue(id, name, props ?? {}, options);
+    addCloseCallback(shown, options?.onClose);
+    return createHandle(shown);
+  };
+
+  const pushModalAsync = <T extends StateItem['name'], B extends Prettify<GetPushProps<Modals[T]>>>(
+    name: T,
+    ...args: PushArgs<B, PushOptions<B, GetWrapperProps<M[T]>>>
   ) => {
-    const [props] = args;
-    return emitter.emit('push', {
-      name,
-      props: props ?? {},
+    const [props, options] = args;
+    const key = options?.id ?? createId();
+    return new Promise<GetModalResult<Modals[T]> | Dismissed>((resolve) => {
+      if (isPushed(key)) {
+        // Settled along with the instance already open or queued
+        addWaiter(key, resolve as (value: unknown) => void);
+        return;
+      }
+      const shown = pushOrQueue(key, name, props ?? {}, options);
+      addCloseCallback(shown, options?.onClose);
+      addWaiter(shown, resolve as (value: unknown) => void);
     });
   };
 
-  const popModal = (name?: StateItem['name']) =>
-    emitter.emit('pop', {
-      name,
-    });
+  /**
+   * Close the last opened modal, the last opened modal with the given name
+   * or the modal with the given id
+   */
+  const popModal = (
+    nameOrId?: StateItem['name'] | ModalId,
+    options?: CloseOptions & ScopeOptions
+  ) => {
+    const match = matchNameOrId(nameOrId, options?.scope);
+    return match ? requestClose(match.key, 'pop', options?.force) : false;
+  };
 
-  const replaceWithModal = <T extends StateItem['name'], B extends GetComponentProps<Modals[T]>>(
+  const replaceWithModal = <T extends StateItem['name'], B extends GetPushProps<Modals[T]>>(
     name: T,
-    ...args: HasKeys<IsObject<B>> extends never
-      ? // No props provided
-        []
-      : // Props provided
-        [props: B]
+    ...args: PushArgs<B, ReplaceOptions<GetWrapperProps<M[T]>>>
+  ): ModalHandle<B> => {
+    const [props, options] = args;
+    const id = options?.id ?? createId();
+    replaceItem(id, name, props ?? {}, undefined, options);
+    return createHandle(id);
+  };
+
+  /**
+   * Close every open modal from the top down, stops at the first modal
+   * whose guard keeps it open. Every scope is closed unless one is given
+   */
+  const popAllModals = (options?: CloseOptions & ScopeOptions) => {
+    const keys = stack
+      .filter((item) => item.open && (!options?.scope || item.scope === options.scope))
+      .map((item) => item.key)
+      .reverse();
+    const next = (index: number): boolean | Promise<boolean> => {
+      if (index >= keys.length) {
+        return true;
+      }
+      if (!findOpen(keys[index]!)) {
+        return next(index + 1);
+      }
+      const result = requestClose(keys[index]!, 'popAll', options?.force);
+      return result instanceof Promise
+        ? result.then((ok) => ok && next(index + 1))
+        : result && next(index + 1);
+    };
+    return next(0);
+  };
+
+  /**
+   * Merge new props into the last opened modal with the given name or the modal with
+   * the given id, the component is re-rendered in place without remounting
+   *
+   * @example
+   * ```ts
+   * updateModal('Upload', (prev) => ({ progress: prev.progress + 10 }));
+   * ```
+   */
+  const updateModal = <T extends StateItem['name']>(
+    nameOrId: T | ModalId,
+    props: PropsUpdate<GetPushProps<Modals[T]>>,
+    options?: ScopeOptions
   ) => {
-    const [props] = args;
-    emitter.emit('replace', {
-      name,
-      props: props ?? {},
+    const match = matchNameOrId(nameOrId, options?.scope);
+    // An id might still be waiting in the queue
+    return match
+      ? updateItem(match, props as PropsUpdate<any>)
+      : updateQueued(nameOrId as string, props as PropsUpdate<any>);
+  };
+
+  /** Modals waiting to open, in the order they will open. Every scope unless one is given */
+  const getModalQueue = (options?: ScopeOptions): QueuedModal<ModalKeys>[] =>
+    queue
+      .filter((item) => !options?.scope || item.scope === options.scope)
+      .map(({ key, name, props, scope, priority }) => ({ id: key, name, props, scope, priority }));
+
+  /**
+   * Move the queued modals with the given ids to the front of the queue, in that order
+   *
+   * @example
+   * ```ts
+   * reorderModalQueue(getModalQueue().map(({ id }) => id).reverse());
+   * ```
+   */
+  const reorderModalQueue = (ids: (string | ModalId)[]) => {
+    const moved = ids.flatMap((id) => queue.filter((item) => item.key === id));
+    queue = [...moved, ...queue.filter((item) => !moved.includes(item))];
+  };
+
+  /** Drop the queued modals, their `pushModalAsync` promises resolve with `DISMISSED` */
+  const clearModalQueue = (options?: ScopeOptions) => {
+    getModalQueue(options).forEach(({ id }) => dequeue(id));
+  };
+
+  /**
+   * Load a `lazyModal` ahead of time, so it renders without showing the `fallback`.
+   * Resolves right away for modals that are not lazy
+   */
+  const preloadModal = (name: ModalKeys) => {
+    const modal = definitions[name];
+    const Component = 'Component' in modal ? modal.Component : modal;
+    return isLazyModal(Component) ? Component.preload().then(() => undefined) : Promise.resolve();
+  };
+
+  /**
+   * Event handlers preloading the modal when its trigger is hovered or focused
+   *
+   * @example
+   * ```tsx
+   * <button {...getPreloadHandlers('EditUser')} onClick={() => pushModal('EditUser', { id })}>
+   * ```
+   */
+  const getPreloadHandlers = (name: ModalKeys) => {
+    const preload = () => {
+      // A failed load is retried when the modal renders
+      preloadModal(name).catch(() => {});
+    };
+    return { onPointerEnter: preload, onFocus: preload };
+  };
+
+  let snapshot: { source: StateItem[]; items: readonly ModalStackItem<ModalKeys>[] } | undefined;
+
+  /**
+   * Every modal of every scope from the bottom up, closing modals stay until their
+   * exit animation ends with `open: false`. The same array is returned until the stack changes
+   */
+  const getModalStack = (): readonly ModalStackItem<ModalKeys>[] => {
+    if (snapshot?.source !== stack) {
+      snapshot = {
+        source: stack,
+        items: stack.map(({ key, name, props, open, scope, reason }) => ({
+          id: key,
+          name,
+          props,
+          open,
+          scope,
+          reason,
+        })),
+      };
+    }
+    return snapshot.items;
+  };
+
+  /** Whether any modal, a modal with the given name or the modal with the given id is open */
+  const isModalOpen = (nameOrId?: ModalKeys | ModalId, options?: ScopeOptions) =>
+    stack.some(
+      (item) =>
+        item.open &&
+        (!options?.scope || item.scope === options.scope) &&
+        (nameOrId === undefined || item.name === nameOrId || item.key === nameOrId)
+    );
+
+  /**
+   * Select a value from the stack, the component re-renders when it changes
+   *
+   * @example
+   * ```tsx
+   * const hasModal = useModalStack((stack) => stack.some((item) => item.open));
+   * ```
+   */
+  const useModalStack = <R = readonly ModalStackItem<ModalKeys>[],>(
+    selector: (stack: readonly ModalStackItem<ModalKeys>[]) => R = (items) => items as R
+  ) => {
+    // Selectors returning a new object or array are only called again when the stack changes
+    const cache = useRef<{
+      items: readonly ModalStackItem<ModalKeys>[];
+      selector: unknown;
+      value: R;
+    }>();
+    const getSnapshot = () => {
+      const items = getModalStack();
+      if (cache.current?.items !== items || cache.current.selector !== selector) {
+        cache.current = { items, selector, value: selector(items) };
+      }
+      return cache.current.value;
+    };
+    return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+  };
+
+  const openDialog = (type: DialogType, options: string | (PromptOptions & ScopeOptions)) => {
+    const { scope, ...props }: PromptOptions & ScopeOptions =
+      typeof options === 'string' ? { title: options } : options;
+    const key = createId();
+    return new Promise<unknown>((resolve) => {
+      addWaiter(key, resolve);
+      pushItem(key, DIALOG, { ...props, type }, scope);
     });
   };
 
-  const popAllModals = () => emitter.emit('popAll');
+  /**
+   * Ask the user to confirm an action, resolves to `false` when cancelled
+   *
+   * @example
+   * ```ts
+   * if (await confirm({ title: 'Delete this user?', variant: 'destructive' })) {
+   *   deleteUser(id);
+   * }
+   * ```
+   */
+  const confirm = (options: string | (DialogOptions & ScopeOptions)) =>
+    openDialog('confirm', options).then((value) => value === true);
+
+  /** Show a message, resolves once the user has dismissed it */
+  const alert = (options: string | (Omit<DialogOptions, 'cancelLabel'> & ScopeOptions)) =>
+    openDialog('alert', options).then(() => undefined);
+
+  /** Ask the user for a text, resolves to `null` when cancelled */
+  const prompt = (options: string | (PromptOptions & ScopeOptions)) =>
+    openDialog('prompt', options).then((value) => (typeof value === 'string' ? value : null));
+
+  // Injected as the `resolve` prop, settles the pending promise and closes without guards
+  const resolvers = (key: string) => {
+    let callback = resolveCallbacks.get(key);
+    if (!callback) {
+      callback = (value?: unknown) => {
+        settle(key, value);
+        closeItem(key, 'resolve');
+      };
+      resolveCallbacks.set(key, callback);
+    }
+    return callback;
+  };
+
+  const useModalContext = (hook: string) => {
+    const context = useContext(ModalContext);
+    if (!context) {
+      throw new Error(`[swapmodal] ${hook} must be used inside a modal rendered by ModalProvider`);
+    }
+    return context;
+  };
+
+  /**
+   * Access the modal instance currently rendering, only available inside components
+   * rendered by the `ModalProvider`
+   *
+   * @example
+   * ```tsx
+   * const { close, isTop } = useModal<'EditUser'>();
+   * ```
+   */
+  const useModal = <T extends ModalKeys = ModalKeys>() => {
+    const context = useModalContext('useModal');
+    const { key } = context;
+
+    return {
+      ...context,
+      /** Close this instance, a pending `pushModalAsync` resolves with `DISMISSED` */
+      close: (options?: CloseOptions) => requestClose(key, 'pop', options?.force),
+      /** Close this instance and settle a pending `pushModalAsync` with `value` */
+      resolve: (value: GetModalResult<Modals[T]>) => resolvers(key)(value),
+      /** Replace this instance with another modal */
+      replace: <N extends ModalKeys, B extends GetPushProps<Modals[N]>>(
+        name: N,
+        ...args: PushArgs<B, ReplaceOptions<GetWrapperProps<M[N]>>>
+      ): ModalHandle<B> => {
+        const [props, options] = args;
+        const id = options?.id ?? createId();
+        replaceItem(id, name, props ?? {}, key, options);
+        return createHandle(id);
+      },
+      /** Merge new props into this instance without remounting it */
+      update: (props: PropsUpdate<GetPushProps<Modals[T]>>) =>
+        updateItem(findOpen(key), props as PropsUpdate<any>),
+      /**
+       * Show another modal as the next step of this instance, without closing it.
+       * The steps after the current one are discarded
+       */
+      next: <N extends ModalKeys, B extends GetPushProps<Modals[N]>>(
+        name: N,
+        ...[props]: PushArgs<B, never>
+      ) => moveStep(key, 1, { name, props: props ?? {} }),
+      /** Go back to the previous step with the props it had, `false` on the first step */
+      back: () => moveStep(key, -1),
+      /** Return to the step left with `back`, `false` on the last step */
+      forward: () => moveStep(key, 1),
+    };
+  };
+
+  /**
+   * Register a guard for the modal instance currently rendering, return `false`
+   * (or a promise resolving to `false`) to keep it open
+   *
+   * @example
+   * ```tsx
+   * useBeforeClose(() => !isDirty || window.confirm('Discard changes?'));
+   * ```
+   */
+  const useBeforeClose = (guard: BeforeCloseGuard) => {
+    const { key } = useModalContext('useBeforeClose');
+    const guardRef = useRef(guard);
+    guardRef.current = guard;
+
+    useEffect(() => {
+      const fn: BeforeCloseGuard = (reason) => guardRef.current(reason);
+      const set = guards.get(key) ?? new Set();
+      set.add(fn);
+      guards.set(key, set);
+      return () => {
+        set.delete(fn);
+        if (set.size === 0) {
+          guards.delete(key);
+        }
+      };
+    }, [key]);
+  };
 
   type EventCallback<T extends ModalKeys> = (
     open: boolean,
     props: GetComponentProps<Modals[T]>,
-    name?: T
+    name?: T,
+    // Only set when closing
+    reason?: CloseReason
   ) => void;
 
-  type CloseCallback<T extends ModalKeys> = (props: GetComponentProps<Modals[T]>, name?: T) => void;
+  type CloseCallback<T extends ModalKeys> = (
+    props: GetComponentProps<Modals[T]>,
+    name?: T,
+    reason?: CloseReason
+  ) => void;
+
+  type UpdateCallback<T extends ModalKeys> = (
+    props: GetComponentProps<Modals[T]>,
+    name?: T
+  ) => void;
 
   const onPushModal = <T extends ModalKeys>(name: T | '*', callback: EventCallback<T>) => {
     const fn: Handler<EventHandlers['change']> = (payload) => {
       if (payload.name === name) {
-        callback(payload.open, payload.props as GetComponentProps<Modals[T]>, payload.name as T);
+        callback(
+          payload.open,
+          payload.props as GetComponentProps<Modals[T]>,
+          payload.name as T,
+          payload.reason
+        );
       } else if (name === '*') {
-        callback(payload.open, payload.props as any, payload.name as T);
+        callback(payload.open, payload.props as any, payload.name as T, payload.reason);
       }
     };
     emitter.on('change', fn);
     return () => emitter.off('change', fn);
   };
 
+  const onUpdateModal = <T extends ModalKeys>(name: T | '*', callback: UpdateCallback<T>) => {
+    const fn: Handler<EventHandlers['updated']> = (payload) => {
+      if (payload.name === name || name === '*') {
+        callback(payload.props as GetComponentProps<Modals[T]>, payload.name as T);
+      }
+    };
+    emitter.on('updated', fn);
+    return () => emitter.off('updated', fn);
+  };
+
+  type LifecycleCallback<T extends ModalKeys> = (
+    props: GetComponentProps<Modals[T]>,
+    name?: T,
+    // Only set for `beforeClose` and `unmounted`
+    reason?: CloseReason
+  ) => void;
+
+  const createLifecycleListener =
+    (event: 'beforeOpen' | 'opened' | 'beforeClose' | 'unmounted') =>
+    <T extends ModalKeys>(name: T | '*', callback: LifecycleCallback<T>) => {
+      const fn: Handler<LifecycleEvent> = (payload) => {
+        if (payload.name === name || name === '*') {
+          callback(
+            payload.props as GetComponentProps<Modals[T]>,
+            payload.name as T,
+            payload.reason
+          );
+        }
+      };
+      emitter.on(event, fn);
+      return () => emitter.off(event, fn);
+    };
+
+  const createLifecycleHook =
+    (listen: ReturnType<typeof createLifecycleListener>) =>
+    <T extends ModalKeys>(name: T | '*', callback: LifecycleCallback<T>) => {
+      useEffect(() => {
+        return listen(name, callback);
+      }, [name, callback]);
+    };
+
+  /** Right before a modal is added to the stack */
+  const onBeforeOpenModal = createLifecycleListener('beforeOpen');
+  /** Once the enter animation of a modal has finished */
+  const onOpenedModal = createLifecycleListener('opened');
+  /** Right before a modal closes, after its guards allowed it */
+  const onBeforeCloseModal = createLifecycleListener('beforeClose');
+  /** Once a closed modal has been removed from the tree */
+  const onUnmountedModal = createLifecycleListener('unmounted');
+
   const onCloseModal = <T extends ModalKeys>(
     name: T | '*',
     callback: CloseCallback<T>,
@@ -268,18 +2124,26 @@ export function createPushModal<T>({ modals }: CreatePushModalOptions<T>) {
         if (payload.name === name) {
           if (delay > 0) {
             setTimeout(() => {
-              callback(payload.props as GetComponentProps<Modals[T]>, payload.name as T);
+              callback(
+                payload.props as GetComponentProps<Modals[T]>,
+                payload.name as T,
+                payload.reason
+              );
             }, delay);
           } else {
-            callback(payload.props as GetComponentProps<Modals[T]>, payload.name as T);
+            callback(
+              payload.props as GetComponentProps<Modals[T]>,
+              payload.name as T,
+              payload.reason
+            );
           }
         } else if (name === '*') {
           if (delay > 0) {
             setTimeout(() => {
-              callback(payload.props as any, payload.name as T);
+              callback(payload.props as any, payload.name as T, payload.reason);
             }, delay);
           } else {
-            callback(payload.props as any, payload.name as T);
+            callback(payload.props as any, payload.name as T, payload.reason);
           }
         }
       }
@@ -291,17 +2155,48 @@ export function createPushModal<T>({ modals }: CreatePushModalOptions<T>) {
 
   return {
     ModalProvider,
+    useModalItems,
     pushModal,
+    pushModalAsync,
     popModal,
     popAllModals,
     replaceWithModal,
+    updateModal,
+    confirm,
+    alert,
+    prompt,
+    preloadModal,
+    getPreloadHandlers,
+    getModalStack,
+    isModalOpen,
+    subscribe,
+    useModalStack,
+    getModalQueue,
+    reorderModalQueue,
+    clearModalQueue,
     onPushModal,
+    onUpdateModal,
     onCloseModal,
+    onBeforeOpenModal,
+    onOpenedModal,
+    onBeforeCloseModal,
+    onUnmountedModal,
+    useModal,
+    useBeforeClose,
     useOnPushModal: <T extends ModalKeys>(name: T | '*', callback: EventCallback<T>) => {
       useEffect(() => {
         return onPushModal(name, callback);
       }, [name, callback]);
     },
+    useOnUpdateModal: <T extends ModalKeys>(name: T | '*', callback: UpdateCallback<T>) => {
+      useEffect(() => {
+        return onUpdateModal(name, callback);
+      }, [name, callback]);
+    },
+    useOnBeforeOpenModal: createLifecycleHook(onBeforeOpenModal),
+    useOnOpenedModal: createLifecycleHook(onOpenedModal),
+    useOnBeforeCloseModal: createLifecycleHook(onBeforeCloseModal),
+    useOnUnmountedModal: createLifecycleHook(onUnmountedModal),
     useOnCloseModal: <T extends ModalKeys>(
       name: T | '*',
       callback: CloseCallback<T>,
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+
+type LazyModule<P> = { default: React.ComponentType<P> } | React.ComponentType<P>;
+
+export type LazyModal<P> = React.FunctionComponent<P> & {
+  /** Load the component ahead of time, the promise is shared by every call */
+  preload: () => Promise<React.ComponentType<P>>;
+};
+
+export const isLazyModal = (component: unknown): component is LazyModal<unknown> =>
+  typeof component === 'function' && 'preload' in component;
+
+/**
+ * A modal component loaded on first render or on `preload()`, props are inferred
+ * from the imported component
+ *
+ * @example
+ * ```ts
+ * modals: {
+ *   EditUser: lazyModal(() => import('./edit-user')),
+ *   Search: lazyModal(() => import('./search').then((module) => module.Search)),
+ * }
+ * ```
+ */
+export function lazyModal<P>(load: () => Promise<LazyModule<P>>): LazyModal<P> {
+  let promise: Promise<React.ComponentType<P>> | undefined;
+  let Loaded: React.ComponentType<P> | undefined;
+
+  const preload = () =>
+    (promise ??= load().then(
+      (module) => {
+        Loaded =
+          typeof module === 'object' && 'default' in module
+            ? module.default
+            : (module as React.ComponentType<P>);
+        return Loaded;
+      },
+      (error) => {
+        // Loading again on the next render or preload
+        promise = undefined;
+        Lazy = createLazy();
+        throw error;
+      }
+    ));
+
+  const createLazy = () =>
+    React.lazy(() => preload().then((component) => ({ default: component })));
+  let Lazy = createLazy();
+
+  function LazyModal(props: P) {
+    // Picked once, a preloaded component renders without suspending
+    const [{ Component }] = useState(() => ({
+      Component: (Loaded ?? Lazy) as React.ComponentType<P>,
+    }));
+    return <Component {...(props as React.JSX.IntrinsicAttributes & P)} />;
+  }
+
+  return Object.assign(LazyModal, { preload });
+}
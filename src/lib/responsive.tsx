@@ -6,77 +6,117 @@ type WrapperProps = Dialog.DialogProps;
 type ContentProps = Omit<Dialog.DialogContentProps, 'onAnimationEnd'> & {
   onAnimationEnd?: (...args: any[]) => void;
 };
-type Options = {
-  mobile: {
-    Wrapper: React.ComponentType<WrapperProps>;
-    Content: React.ComponentType<ContentProps>;
-  };
-  desktop: {
-    Wrapper: React.ComponentType<WrapperProps>;
-    Content: React.ComponentType<ContentProps>;
-  };
-  breakpoint?: number;
+type Components = {
+  Wrapper: React.ComponentType<WrapperProps>;
+  Content: React.ComponentType<ContentProps>;
 };
+export type ResponsiveVariant<N extends string = string> = Components & {
+  name: N;
+  /**
+   * Media query selecting this variant, `(max-width: 640px)` or `(pointer: coarse)`.
+   * Without it the variant is used when none of the previous ones match
+   */
+  query?: string;
+};
+type Options<N extends string> =
+  | {
+      /** Ordered by priority, the first variant whose query matches is used */
+      variants: ResponsiveVariant<N>[];
+    }
+  | {
+      mobile: Components;
+      desktop: Components;
+      breakpoint?: number;
+    };
+
+export function createResponsiveWrapper<N extends string = 'mobile' | 'desktop'>(
+  options: Options<N>
+) {
+  const variants: ResponsiveVariant<N>[] =
+    'variants' in options
+      ? options.variants
+      : [
+          {
+            name: 'mobile' as N,
+            query: `(max-width: ${options.breakpoint ?? 640}px)`,
+            ...options.mobile,
+          },
+          { name: 'desktop' as N, ...options.desktop },
+        ];
+  if (variants.length === 0) {
+    throw new Error('[swapmodal] createResponsiveWrapper needs at least one variant');
+  }
+  // Rendered on the server and when no query matches
+  const fallback = variants[variants.length - 1];
+
+  const matchVariant = () =>
+    variants.find((variant) => !variant.query || window.matchMedia(variant.query).matches) ??
+    fallback;
 
-export function createResponsiveWrapper({ mobile, desktop, breakpoint = 640 }: Options) {
-  // Create a context to share the isMobile state between Wrapper and Content
-  const ResponsiveContext = createContext<boolean | undefined>(undefined);
+  // Create a context to share the active variant between Wrapper and Content
+  const ResponsiveContext = createContext<ResponsiveVariant<N> | undefined>(undefined);
 
-  function useIsMobile() {
-    const [isMobile, setIsMobile] = useState<boolean>(() => {
+  function useMatchVariant() {
+    const [variant, setVariant] = useState(() => {
       // Initialize with correct value to avoid hydration mismatch
       if (typeof window !== 'undefined') {
-        return window.matchMedia(`(max-width: ${breakpoint}px)`).matches;
+        return matchVariant();
       }
-      return false;
+      return fallback;
     });
 
     useLayoutEffect(() => {
-      const checkDevice = (event: MediaQueryList | MediaQueryListEvent) => {
-        setIsMobile(event.matches);
-      };
+      const update = () => setVariant(matchVariant());
 
       // Initial detection
-      const mediaQueryList = window.matchMedia(`(max-width: ${breakpoint}px)`);
-      checkDevice(mediaQueryList);
+      update();
 
-      // Listener for media query change
-      mediaQueryList.addEventListener('change', checkDevice);
+      // Listener for media query changes
+      const mediaQueryLists = variants.flatMap((item) =>
+        item.query ? [window.matchMedia(item.query)] : []
+      );
+      mediaQueryLists.forEach((list) => list.addEventListener('change', update));
 
-      // Cleanup listener
+      // Cleanup listeners
       return () => {
-        mediaQueryList.removeEventListener('change', checkDevice);
+        mediaQueryLists.forEach((list) => list.removeEventListener('change', update));
       };
     }, []);
 
-    return isMobile;
+    return variant;
+  }
+
+  function useCurrentVariant() {
+    // Use the context value from Wrapper to ensure consistency
+    const contextVariant = useContext(ResponsiveContext);
+    // Fallback to hook if context is not available (shouldn't happen in normal usage)
+    const hookVariant = useMatchVariant();
+    return contextVariant ?? hookVariant;
   }
 
   function Wrapper(props: WrapperProps) {
-    const isMobile = useIsMobile();
-    const WrapperComponent = isMobile ? mobile.Wrapper : desktop.Wrapper;
+    const variant = useMatchVariant();
+    const WrapperComponent = variant.Wrapper;
 
     return (
-      <ResponsiveContext.Provider value={isMobile}>
+      <ResponsiveContext.Provider value={variant}>
         <WrapperComponent {...props} />
       </ResponsiveContext.Provider>
     );
   }
 
   function Content(props: ContentProps) {
-    // Use the context value from Wrapper to ensure consistency
-    const contextIsMobile = useContext(ResponsiveContext);
-    // Fallback to hook if context is not available (shouldn't happen in normal usage)
-    const hookIsMobile = useIsMobile();
-    const isMobile = contextIsMobile !== undefined ? contextIsMobile : hookIsMobile;
-
-    const ContentComponent = isMobile ? mobile.Content : desktop.Content;
+    const ContentComponent = useCurrentVariant().Content;
 
     return <ContentComponent {...props} />;
   }
 
+  /** Name of the variant rendered by the surrounding `Wrapper` */
+  const useVariant = () => useCurrentVariant().name;
+
   return {
     Wrapper,
     Content,
+    useVariant,
   };
 }
@@ -0,0 +1,98 @@
+'use client';
+
+import { createContext, useContext, useLayoutEffect, version, type ReactNode } from 'react';
+
+export interface ModalStacking {
+  /** Open modals rendered above this one in its scope, `0` for the top modal */
+  depth: number;
+  isTop: boolean;
+  /** Set with the `stacked` option of `createPushModal` */
+  stacked: boolean;
+  /**
+   * In stacked mode only the top modal shows its overlay, a non-modal entry above it
+   * (`modal: false`) leaves the overlay below visible
+   */
+  showOverlay: boolean;
+  /**
+   * Open below the top modal entry, whatever `stacked` is. Only the top entry takes the focus
+   * and the pointer, a non-modal entry (`modal: false`) leaves the one below interactive
+   */
+  inert: boolean;
+}
+
+// React 18 only renders `inert` from a string, React 19 treats the empty string as `false`
+const inertValue = Number(version.split('.')[0]) < 19 ? '' : true;
+
+// Shared by every `createPushModal`, so the ui components don't depend on a factory
+export const ModalStackingContext = createContext<ModalStacking>({
+  depth: 0,
+  isTop: true,
+  stacked: false,
+  showOverlay: true,
+  inert: false,
+});
+
+/**
+ * Position of the surrounding modal in its stack, for content components.
+ * Outside of swapmodal the content is considered the only modal
+ *
+ * @example
+ * ```tsx
+ * const stacking = useModalStacking()
+ * return (
+ *   <DialogPortal>
+ *     {stacking.showOverlay && <DialogOverlay />}
+ *     <DialogPrimitive.Content {...stacking.attributes} />
+ *   </DialogPortal>
+ * )
+ * ```
+ */
+export function useModalStacking() {
+  const stacking = useContext(ModalStackingContext);
+  return {
+    ...stacking,
+    /** Style the modals below the top one with `data-stacked:data-[stack-top=false]:` */
+    attributes: {
+      'data-stack-depth': stacking.depth,
+      'data-stack-top': stacking.isTop,
+      'data-stacked': stacking.stacked || undefined,
+      inert: stacking.inert ? inertValue : undefined,
+    },
+    /**
+     * Spread on the overlay, hide it with `data-overlay-hidden:opacity-0`. It stays mounted so
+     * the overlays below and above fade into each other instead of flashing
+     */
+    overlayAttributes: {
+      'data-overlay-hidden': !stacking.showOverlay || undefined,
+    },
+  };
+}
+
+// Set by the provider around each modal, renders the overlay outside of the current step
+export const ModalOverlayContext = createContext<((overlay: ReactNode) => void) | undefined>(
+  undefined
+);
+
+/**
+ * Hand the overlay of the content to the surrounding modal, which keeps it mounted while a
+ * multi-step flow swaps its steps. Outside of swapmodal it is returned to render in place
+ *
+ * @example
+ * ```tsx
+ * const overlay = useModalOverlay(<DialogOverlay {...stacking.overlayAttributes} />)
+ * return (
+ *   <DialogPortal>
+ *     {overlay}
+ *     <DialogPrimitive.Content {...stacking.attributes} />
+ *   </DialogPortal>
+ * )
+ * ```
+ */
+export function useModalOverlay(overlay: ReactNode) {
+  const setOverlay = useContext(ModalOverlayContext);
+  // Every render, the overlay follows the attributes of the content
+  useLayoutEffect(() => {
+    setOverlay?.(overlay);
+  });
+  return setOverlay ? null : overlay;
+}
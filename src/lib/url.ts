@@ -0,0 +1,79 @@
+/**
+ * Reads and writes the serialized modal stack, implement it to sync the stack
+ * through your router instead of `window.history`
+ */
+export interface ModalUrlAdapter {
+  /** Serialized stack currently in the URL, `null` when there is none */
+  read: () => string | null;
+  /** Store the serialized stack in the URL, `null` removes it */
+  write: (value: string | null) => void;
+  /** Listen to URL changes made outside of swapmodal (back/forward, router navigation) */
+  subscribe?: (listener: () => void) => () => void;
+}
+
+/** Converts the props of a modal from and to a JSON value stored in the URL */
+export interface ModalUrlSerializer<P> {
+  serialize: (props: P) => unknown;
+  parse: (value: unknown) => P;
+}
+
+const replaceUrl = (url: URL) => {
+  window.history.replaceState(window.history.state, '', url);
+};
+
+const subscribeToNavigation = (listener: () => void) => {
+  window.addEventListener('popstate', listener);
+  window.addEventListener('hashchange', listener);
+  return () => {
+    window.removeEventListener('popstate', listener);
+    window.removeEventListener('hashchange', listener);
+  };
+};
+
+/**
+ * Stores the stack in a query parameter, `?modal=...`
+ *
+ * @example
+ * ```ts
+ * createPushModal({ modals, url: { adapter: createSearchParamAdapter('dialog') } });
+ * ```
+ */
+export function createSearchParamAdapter(param = 'modal'): ModalUrlAdapter {
+  return {
+    read: () => new URL(window.location.href).searchParams.get(param),
+    write: (value) => {
+      const url = new URL(window.location.href);
+      if (value === null) {
+        url.searchParams.delete(param);
+      } else {
+        url.searchParams.set(param, value);
+      }
+      replaceUrl(url);
+    },
+    subscribe: subscribeToNavigation,
+  };
+}
+
+/**
+ * Stores the stack in the hash, `#modal=...`, other hash parameters are kept
+ */
+export function createHashAdapter(param = 'modal'): ModalUrlAdapter {
+  const getParams = () => new URLSearchParams(window.location.hash.slice(1));
+
+  return {
+    read: () => getParams().get(param),
+    write: (value) => {
+      const url = new URL(window.location.href);
+      const params = getParams();
+      if (value === null) {
+        params.delete(param);
+      } else {
+        params.set(param, value);
+      }
+      const hash = params.toString();
+      url.hash = hash ? `#${hash}` : '';
+      replaceUrl(url);
+    },
+    subscribe: subscribeToNavigation,
+  };
+}